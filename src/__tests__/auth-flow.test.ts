@@ -90,7 +90,7 @@ describe('AuthFlow', () => {
         password: 'password',
       });
 
-      expect(result).toEqual(mockResponse);
+      expect(result).toEqual({ status: 'authenticated', data: mockResponse });
     });
 
     it('should throw error when tokens missing from login response', async () => {
@@ -108,6 +108,101 @@ describe('AuthFlow', () => {
         'Tokens not found in response'
       );
     });
+
+    it('should keep opaque tokens valid until the server-reported expiry', async () => {
+      const auth = createAuthFlow(config);
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            accessToken: 'opaque-access',
+            refreshToken: 'opaque-refresh',
+            expires_in: 300,
+            refresh_expires_in: 3600,
+            token_type: 'Bearer',
+            scope: 'read write',
+          }),
+      });
+
+      await auth.login({ email: 'test@example.com', password: 'password' });
+
+      expect(auth.getTokens()).toEqual({
+        accessToken: 'opaque-access',
+        refreshToken: 'opaque-refresh',
+        expiresAt: now + 300 * 1000,
+        refreshExpiresAt: now + 3600 * 1000,
+        tokenType: 'Bearer',
+        scope: 'read write',
+      });
+      expect(auth.isAuthenticated()).toBe(true);
+
+      (Date.now as jest.Mock).mockReturnValue(now + 3601 * 1000);
+      expect(auth.isAuthenticated()).toBe(false);
+      expect(auth.getTokens()).toBeNull();
+
+      (Date.now as jest.Mock).mockRestore();
+    });
+
+    it('should read tokens from nested fields', async () => {
+      const auth = createAuthFlow({
+        ...config,
+        tokenFields: { access: 'data.session.access_token', refresh: 'data.session.refresh_token' },
+      });
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () =>
+          Promise.resolve({
+            data: { session: { access_token: 'access', refresh_token: 'refresh' } },
+          }),
+      });
+
+      await auth.login({ email: 'test@example.com', password: 'password' });
+
+      expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+    });
+
+    it('should use a custom extractor for login and refresh', async () => {
+      const refreshToken = `${btoa('{}')}.${btoa('{"sub":"1"}')}.sig`;
+      const extractTokens = jest.fn((response) => ({
+        accessToken: response.headers.authorization.replace('Bearer ', ''),
+        refreshToken: response.data.refresh,
+      }));
+      const auth = createAuthFlow({ ...config, extractTokens });
+      const tokenResponse = (access: string) => ({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers({
+          'content-type': 'application/json',
+          authorization: `Bearer ${access}`,
+        }),
+        json: () => Promise.resolve({ refresh: refreshToken }),
+      });
+
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(tokenResponse('login-access'))
+        .mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' })
+        .mockResolvedValueOnce(tokenResponse('refreshed-access'))
+        .mockResolvedValueOnce(tokenResponse('ignored'));
+
+      await auth.login({ email: 'test@example.com', password: 'password' });
+      expect(auth.getTokens()?.accessToken).toBe('login-access');
+
+      await auth.get('/user/profile');
+
+      expect(extractTokens).toHaveBeenCalledTimes(2);
+      expect(auth.getTokens()).toEqual({ accessToken: 'refreshed-access', refreshToken });
+    });
   });
 
   describe('authenticated requests', () => {
@@ -0,0 +1,92 @@
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { createJWTToken, jsonResponse } from './helpers';
+
+describe('Authorization header', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    storage: 'memory',
+  };
+
+  it('should use a custom header name without a scheme', async () => {
+    const auth = createAuthFlow({ ...config, authHeader: { name: 'X-Auth-Token', scheme: '' } });
+    auth.setTokens({ accessToken: 'access' });
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}));
+
+    await auth.get('/legacy');
+
+    const [, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(init.headers['X-Auth-Token']).toBe('access');
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  it('should use a custom scheme', async () => {
+    const auth = createAuthFlow({ ...config, authHeader: { scheme: 'Token' } });
+    auth.setTokens({ accessToken: 'access' });
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}));
+
+    await auth.get('/legacy');
+
+    expect((fetch as jest.Mock).mock.calls[0][1].headers.Authorization).toBe('Token access');
+  });
+
+  it('should put the token in a query parameter for a single request', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'a b' });
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}));
+
+    await auth.get('/files/1?download=1', { authHeader: { queryParam: 'access_token' } });
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://api.example.com/files/1?download=1&access_token=a%20b');
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  it('should re-apply a header function when retrying after refresh', async () => {
+    const authHeader = jest.fn((token: string) => ({ 'X-Session': token }));
+    const refreshToken = createJWTToken({ sub: '1' });
+    const auth = createAuthFlow({ ...config, authHeader });
+    auth.setTokens({ accessToken: 'old-access', refreshToken });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({ accessToken: 'new-access', refreshToken }))
+      .mockResolvedValueOnce(jsonResponse({ data: 'test' }));
+
+    await auth.get('/user/profile');
+
+    const calls = (fetch as jest.Mock).mock.calls;
+    expect(calls[0][1].headers['X-Session']).toBe('old-access');
+    expect(calls[2][1].headers['X-Session']).toBe('new-access');
+    expect(calls[2][1].headers.Authorization).toBeUndefined();
+    expect(authHeader).toHaveBeenLastCalledWith('new-access', {
+      method: 'GET',
+      url: '/user/profile',
+    });
+  });
+
+  it('should authorize requests failing during one refresh with the new token', async () => {
+    const refreshToken = createJWTToken({ sub: '1' });
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'old-access', refreshToken });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({ accessToken: 'new-access', refreshToken }))
+      .mockResolvedValueOnce(jsonResponse({ data: 'a' }))
+      .mockResolvedValueOnce(jsonResponse({ data: 'b' }));
+
+    await Promise.all([auth.get('/a'), auth.get('/b')]);
+
+    const calls = (fetch as jest.Mock).mock.calls;
+    const refreshCalls = calls.filter(([url]) => url === 'https://api.example.com/auth/refresh');
+    const retries = calls.slice(3);
+    expect(refreshCalls).toHaveLength(1);
+    expect(retries.map(([url]) => url).sort()).toEqual([
+      'https://api.example.com/a',
+      'https://api.example.com/b',
+    ]);
+    retries.forEach(([, init]) => expect(init.headers.Authorization).toBe('Bearer new-access'));
+  });
+});
@@ -0,0 +1,67 @@
+import { createAuthFlow } from '../index';
+import { Clock } from '../clock';
+import { createJWTToken, jsonResponse } from './helpers';
+
+describe('Clock skew and server time', () => {
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  it('should tolerate the configured skew when checking expiry', () => {
+    const refreshToken = createJWTToken({ exp: nowSeconds() - 60 });
+
+    const strict = createAuthFlow({ baseURL: 'https://api.example.com', storage: 'memory' });
+    strict.setTokens({ accessToken: 'access', refreshToken });
+    expect(strict.isAuthenticated()).toBe(false);
+
+    const tolerant = createAuthFlow({
+      baseURL: 'https://api.example.com',
+      storage: 'memory',
+      clockSkewSeconds: 120,
+    });
+    tolerant.setTokens({ accessToken: 'access', refreshToken });
+    expect(tolerant.isAuthenticated()).toBe(true);
+  });
+
+  it('should estimate the server clock from the Date header', async () => {
+    const auth = createAuthFlow({
+      baseURL: 'https://api.example.com',
+      storage: 'memory',
+      syncServerTime: true,
+    });
+    // Valid by the local clock, expired by the server clock ten minutes ahead
+    auth.setTokens({
+      accessToken: 'access',
+      refreshToken: createJWTToken({ exp: nowSeconds() + 300 }),
+    });
+    expect(auth.isAuthenticated()).toBe(true);
+
+    const serverDate = new Date(Date.now() + 10 * 60 * 1000).toUTCString();
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}, 200, { Date: serverDate }));
+    await auth.get('/ping');
+
+    expect(auth.isAuthenticated()).toBe(false);
+  });
+
+  it('should ignore the Date header unless enabled', async () => {
+    const auth = createAuthFlow({ baseURL: 'https://api.example.com', storage: 'memory' });
+    auth.setTokens({
+      accessToken: 'access',
+      refreshToken: createJWTToken({ exp: nowSeconds() + 300 }),
+    });
+
+    const serverDate = new Date(Date.now() + 10 * 60 * 1000).toUTCString();
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}, 200, { Date: serverDate }));
+    await auth.get('/ping');
+
+    expect(auth.isAuthenticated()).toBe(true);
+  });
+
+  it('should apply skew in both directions', () => {
+    const clock = new Clock(30);
+    const now = clock.now();
+
+    expect(clock.isPast(now - 20 * 1000)).toBe(false);
+    expect(clock.isPast(now - 40 * 1000)).toBe(true);
+    expect(clock.isFuture(now + 20 * 1000)).toBe(false);
+    expect(clock.isFuture(now + 40 * 1000)).toBe(true);
+  });
+});
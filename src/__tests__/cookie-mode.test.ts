@@ -0,0 +1,80 @@
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { jsonResponse } from './helpers';
+
+describe('Cookie session mode', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    mode: 'cookie',
+    storage: 'memory',
+  };
+
+  it('should login without tokens in the response body', async () => {
+    const auth = createAuthFlow(config);
+    const onLogin = jest.fn();
+    auth.on('login', onLogin);
+
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ user: { id: '1' } }));
+
+    await auth.login({ email: 'test@example.com', password: 'password' });
+
+    expect(auth.isAuthenticated()).toBe(true);
+    expect(auth.getTokens()).toBeNull();
+    expect(onLogin).toHaveBeenCalledWith({ tokens: null, data: { user: { id: '1' } } });
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.example.com/auth/login',
+      expect.objectContaining({ credentials: 'include' })
+    );
+  });
+
+  it('should send credentials without an Authorization header', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ data: 'test' }));
+
+    await auth.get('/user/profile');
+
+    const [, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(init.credentials).toBe('include');
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  it('should refresh through cookies and retry on 401', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse({ data: 'test' }));
+
+    const response = await auth.get('/user/profile');
+
+    expect(response.data).toEqual({ data: 'test' });
+    expect((fetch as jest.Mock).mock.calls[1][0]).toBe('https://api.example.com/auth/refresh');
+    expect(auth.isAuthenticated()).toBe(true);
+  });
+
+  it('should clear the session flag on logout', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse({}));
+
+    await auth.login({ email: 'test@example.com', password: 'password' });
+    await auth.logout();
+
+    expect(auth.isAuthenticated()).toBe(false);
+  });
+
+  it('should check the session against the status endpoint', async () => {
+    const auth = createAuthFlow(config);
+
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ authenticated: true }));
+    await expect(auth.checkSession()).resolves.toBe(true);
+    expect(auth.isAuthenticated()).toBe(true);
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({}, 401));
+    await expect(auth.checkSession()).resolves.toBe(false);
+    expect(auth.isAuthenticated()).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { CookieStorage } from '../cookie-storage';
+import { createStorage } from '../storage';
+import { createAuthFlow } from '../index';
+import { createJWTToken } from './helpers';
+
+describe('CookieStorage', () => {
+  const captureCookieWrites = () => {
+    const writes: string[] = [];
+    const descriptor = Object.getOwnPropertyDescriptor(Document.prototype, 'cookie')!;
+    jest.spyOn(document, 'cookie', 'set').mockImplementation((value: string) => {
+      writes.push(value);
+      descriptor.set!.call(document, value);
+    });
+    return writes;
+  };
+
+  afterEach(() => {
+    document.cookie.split(';').forEach((pair) => {
+      document.cookie = `${pair.split('=')[0]!.trim()}=; path=/; max-age=0`;
+    });
+  });
+
+  it('should be created with the cookie storage type', () => {
+    expect(createStorage('cookie')).toBeInstanceOf(CookieStorage);
+  });
+
+  it('should store, read and remove values', () => {
+    const storage = new CookieStorage();
+
+    storage.set('token', 'value with spaces;and=symbols');
+    expect(storage.get('token')).toBe('value with spaces;and=symbols');
+
+    storage.remove('token');
+    expect(storage.get('token')).toBeNull();
+  });
+
+  it('should apply configured cookie attributes', () => {
+    const writes = captureCookieWrites();
+    const storage = new CookieStorage({
+      domain: 'localhost',
+      path: '/app',
+      secure: true,
+      sameSite: 'Strict',
+      maxAge: 3600,
+    });
+
+    storage.set('token', 'value');
+
+    expect(writes[writes.length - 1]).toBe(
+      'token=value; path=/app; SameSite=Strict; domain=localhost; max-age=3600; Secure'
+    );
+  });
+
+  it('should derive max-age from the token expiry', () => {
+    const writes = captureCookieWrites();
+    const storage = new CookieStorage({ secure: false });
+    const token = createJWTToken({ exp: Math.floor(Date.now() / 1000) + 600 });
+
+    storage.set('token', token);
+
+    expect(writes[writes.length - 1]).toMatch(/max-age=(599|600)/);
+  });
+
+  it('should give every cookie the lifetime of the longest-lived token', () => {
+    const writes = captureCookieWrites();
+    const storage = new CookieStorage({ secure: false });
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    storage.set('metadata', '{"tokenType":"Bearer"}');
+    expect(writes[writes.length - 1]).not.toContain('max-age');
+
+    storage.set('refresh', createJWTToken({ exp: nowSeconds + 3600 }));
+    storage.set('token', createJWTToken({ exp: nowSeconds + 60 }));
+
+    const lastWrite = (name: string) =>
+      writes.filter((write) => write.startsWith(`${name}=`)).pop();
+    expect(lastWrite('token')).toMatch(/max-age=(3599|3600)/);
+    expect(lastWrite('metadata')).toMatch(/max-age=(3599|3600)/);
+  });
+
+  it('should keep the session when the access token cookie has expired', () => {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const auth = createAuthFlow({ baseURL: 'https://api.example.com', storage: 'cookie' });
+
+    auth.setTokens({
+      accessToken: createJWTToken({ exp: nowSeconds - 60 }),
+      refreshToken: createJWTToken({ exp: nowSeconds + 3600 }),
+    });
+
+    expect(auth.getTokens()).not.toBeNull();
+    expect(auth.isAuthenticated()).toBe(true);
+  });
+
+  it('should split large values into chunks', () => {
+    const storage = new CookieStorage();
+    const large = 'x'.repeat(9000);
+
+    storage.set('token', large);
+
+    expect(document.cookie).toContain('token.0=');
+    expect(document.cookie).toContain('token.2=');
+    expect(storage.get('token')).toBe(large);
+
+    storage.set('token', 'small');
+    expect(document.cookie).not.toContain('token.0=');
+    expect(storage.get('token')).toBe('small');
+  });
+
+  it('should only clear its own cookies', () => {
+    const storage = new CookieStorage();
+    document.cookie = 'other=keep; path=/';
+
+    storage.set('token', 'value');
+    storage.clear();
+
+    expect(storage.get('token')).toBeNull();
+    expect(document.cookie).toContain('other=keep');
+  });
+});
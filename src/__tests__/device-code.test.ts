@@ -0,0 +1,126 @@
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { jsonResponse } from './helpers';
+
+describe('Device Authorization Grant', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    storage: 'memory',
+    oauth: {
+      clientId: 'tv-client',
+      tokenEndpoint: 'https://id.example.com/oauth/token',
+      deviceAuthorizationEndpoint: 'https://id.example.com/oauth/device',
+      scope: 'offline_access',
+    },
+  };
+
+  const deviceResponse = () =>
+    jsonResponse({
+      device_code: 'device-123',
+      user_code: 'WDJB-MJHT',
+      verification_uri: 'https://id.example.com/device',
+      verification_uri_complete: 'https://id.example.com/device?user_code=WDJB-MJHT',
+      expires_in: 600,
+      interval: 5,
+    });
+
+  const tokenCalls = () =>
+    (fetch as jest.Mock).mock.calls.filter(([url]) => url === 'https://id.example.com/oauth/token');
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return the user code and verification URI', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(deviceResponse());
+
+    const login = await auth.loginWithDeviceCode();
+
+    expect(login).toMatchObject({
+      userCode: 'WDJB-MJHT',
+      verificationUri: 'https://id.example.com/device',
+      verificationUriComplete: 'https://id.example.com/device?user_code=WDJB-MJHT',
+      expiresIn: 600,
+    });
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://id.example.com/oauth/device');
+    expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+      client_id: 'tv-client',
+      scope: 'offline_access',
+    });
+  });
+
+  it('should poll until authorized, backing off on slow_down', async () => {
+    const auth = createAuthFlow(config);
+    const onLogin = jest.fn();
+    auth.on('login', onLogin);
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(deviceResponse())
+      .mockResolvedValueOnce(jsonResponse({ error: 'authorization_pending' }, 400))
+      .mockResolvedValueOnce(jsonResponse({ error: 'slow_down' }, 400))
+      .mockResolvedValueOnce(jsonResponse({ access_token: 'access', refresh_token: 'refresh' }));
+
+    const login = await auth.loginWithDeviceCode();
+    const completion = login.complete();
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(tokenCalls()).toHaveLength(1);
+    expect(Object.fromEntries(new URLSearchParams(tokenCalls()[0][1].body))).toEqual({
+      grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+      device_code: 'device-123',
+      client_id: 'tv-client',
+    });
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(tokenCalls()).toHaveLength(2);
+
+    // slow_down adds five seconds to the interval
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(tokenCalls()).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(tokenCalls()).toHaveLength(3);
+
+    await expect(completion).resolves.toEqual({ access_token: 'access', refresh_token: 'refresh' });
+    expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(onLogin).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject when the user denies access', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(deviceResponse())
+      .mockResolvedValueOnce(jsonResponse({ error: 'access_denied' }, 400));
+
+    const login = await auth.loginWithDeviceCode();
+    const completion = expect(login.complete()).rejects.toThrow('Device authorization denied');
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await completion;
+  });
+
+  it('should stop polling when aborted', async () => {
+    const auth = createAuthFlow(config);
+    const controller = new AbortController();
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(deviceResponse())
+      .mockResolvedValue(jsonResponse({ error: 'authorization_pending' }, 400));
+
+    const login = await auth.loginWithDeviceCode({ signal: controller.signal });
+    const completion = expect(login.complete()).rejects.toThrow('Device authorization cancelled');
+
+    await jest.advanceTimersByTimeAsync(5000);
+    controller.abort();
+    await completion;
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(tokenCalls()).toHaveLength(1);
+    expect(auth.getTokens()).toBeNull();
+  });
+});
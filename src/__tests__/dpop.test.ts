@@ -0,0 +1,136 @@
+import { webcrypto, createHash } from 'crypto';
+import { TextEncoder } from 'util';
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { jsonResponse } from './helpers';
+
+describe('DPoP', () => {
+  const originalCrypto = global.crypto;
+  let keyPair: CryptoKeyPair;
+  let config: AuthFlowConfig;
+
+  const decodeProof = (proof: string) => {
+    const [header, payload, signature] = proof.split('.') as [string, string, string];
+    return {
+      header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+      payload: JSON.parse(Buffer.from(payload, 'base64url').toString()),
+      signingInput: `${header}.${payload}`,
+      signature: Buffer.from(signature, 'base64url'),
+    };
+  };
+
+  beforeAll(async () => {
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    Object.assign(global, { TextEncoder });
+
+    keyPair = (await webcrypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, [
+      'sign',
+      'verify',
+    ])) as CryptoKeyPair;
+    config = { baseURL: 'https://api.example.com', storage: 'memory', dpop: { keyPair } };
+  });
+
+  afterAll(() => {
+    Object.defineProperty(global, 'crypto', { value: originalCrypto, configurable: true });
+  });
+
+  it('should sign a proof bound to the access token', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'access' });
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}));
+
+    await auth.get('/user/profile?fields=name');
+
+    const [, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(init.headers.Authorization).toBe('DPoP access');
+
+    const proof = decodeProof(init.headers.DPoP);
+    expect(proof.header).toMatchObject({ typ: 'dpop+jwt', alg: 'ES256', jwk: { kty: 'EC' } });
+    expect(proof.header.jwk.d).toBeUndefined();
+    expect(proof.payload).toMatchObject({
+      htm: 'GET',
+      htu: 'https://api.example.com/user/profile',
+      ath: createHash('sha256').update('access').digest('base64url'),
+    });
+    expect(typeof proof.payload.jti).toBe('string');
+    expect(typeof proof.payload.iat).toBe('number');
+
+    const valid = await webcrypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      keyPair.publicKey,
+      proof.signature,
+      new TextEncoder().encode(proof.signingInput)
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('should resolve relative request URLs against the page', async () => {
+    const auth = createAuthFlow({ ...config, baseURL: '/api' });
+    auth.setTokens({ accessToken: 'access' });
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        jsonResponse({}, 401, {
+          'WWW-Authenticate': 'DPoP error="use_dpop_nonce"',
+          'DPoP-Nonce': 'server-nonce',
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse({}));
+
+    await auth.get('/user/profile');
+
+    const calls = (fetch as jest.Mock).mock.calls;
+    expect(calls[0][0]).toBe('/api/user/profile');
+    const proof = decodeProof(calls[1][1].headers.DPoP);
+    expect(proof.payload.htu).toBe(`${window.location.origin}/api/user/profile`);
+    expect(proof.payload.nonce).toBe('server-nonce');
+  });
+
+  it('should attach a proof without ath to token requests', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ accessToken: 'access' }));
+
+    await auth.login({ email: 'test@example.com', password: 'password' });
+
+    const proof = decodeProof((fetch as jest.Mock).mock.calls[0][1].headers.DPoP);
+    expect(proof.payload).toMatchObject({ htm: 'POST', htu: 'https://api.example.com/auth/login' });
+    expect(proof.payload.ath).toBeUndefined();
+  });
+
+  it('should retry once with the server-provided nonce', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'access' });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        jsonResponse({}, 401, {
+          'WWW-Authenticate': 'DPoP error="use_dpop_nonce"',
+          'DPoP-Nonce': 'server-nonce',
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse({ data: 'test' }));
+
+    const response = await auth.get('/user/profile');
+
+    expect(response.data).toEqual({ data: 'test' });
+    const calls = (fetch as jest.Mock).mock.calls;
+    expect(decodeProof(calls[0][1].headers.DPoP).payload.nonce).toBeUndefined();
+    expect(decodeProof(calls[1][1].headers.DPoP).payload.nonce).toBe('server-nonce');
+  });
+
+  it('should retry a token request rejected with use_dpop_nonce', async () => {
+    const auth = createAuthFlow(config);
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        jsonResponse({ error: 'use_dpop_nonce' }, 400, { 'DPoP-Nonce': 'token-nonce' })
+      )
+      .mockResolvedValueOnce(jsonResponse({ accessToken: 'access' }));
+
+    await auth.login({ email: 'test@example.com', password: 'password' });
+
+    const calls = (fetch as jest.Mock).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(decodeProof(calls[1][1].headers.DPoP).payload.nonce).toBe('token-nonce');
+    expect(auth.getTokens()).toEqual({ accessToken: 'access' });
+  });
+});
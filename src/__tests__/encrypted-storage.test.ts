@@ -0,0 +1,83 @@
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { EncryptedStorage } from '../encrypted-storage';
+import { MemoryStorage } from '../storage';
+import { createAuthFlow } from '../index';
+
+describe('EncryptedStorage', () => {
+  const originalCrypto = global.crypto;
+
+  beforeAll(() => {
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    Object.assign(global, { TextEncoder, TextDecoder });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(global, 'crypto', { value: originalCrypto, configurable: true });
+  });
+
+  const generateKey = () =>
+    webcrypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+      'encrypt',
+      'decrypt',
+    ]) as Promise<CryptoKey>;
+
+  it('should encrypt values written to the underlying storage', async () => {
+    const inner = new MemoryStorage();
+    const storage = new EncryptedStorage(inner, { key: await generateKey() });
+
+    await storage.set('auth_access_token', 'secret-token');
+
+    const raw = inner.get('auth_access_token');
+    expect(raw).not.toBeNull();
+    expect(raw).not.toContain('secret-token');
+    expect(await storage.get('auth_access_token')).toBe('secret-token');
+  });
+
+  it('should use a fresh IV for every write', async () => {
+    const inner = new MemoryStorage();
+    const storage = new EncryptedStorage(inner, { key: await generateKey() });
+
+    await storage.set('a', 'same-value');
+    await storage.set('b', 'same-value');
+
+    expect(inner.get('a')).not.toBe(inner.get('b'));
+  });
+
+  it('should treat undecryptable entries as missing', async () => {
+    const inner = new MemoryStorage();
+    const storage = new EncryptedStorage(inner, { key: await generateKey() });
+
+    inner.set('plain', 'not-encrypted');
+    expect(await storage.get('plain')).toBeNull();
+
+    await storage.set('rotated', 'value');
+    const otherKey = new EncryptedStorage(inner, { key: await generateKey() });
+    expect(await otherKey.get('rotated')).toBeNull();
+  });
+
+  it('should accept a key factory', async () => {
+    const key = await generateKey();
+    const factory = jest.fn(() => Promise.resolve(key));
+    const storage = new EncryptedStorage(new MemoryStorage(), { key: factory });
+
+    await storage.set('a', '1');
+    expect(await storage.get('a')).toBe('1');
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should work as auth storage', async () => {
+    const inner = new MemoryStorage();
+    const auth = createAuthFlow({
+      baseURL: 'https://api.example.com',
+      storage: new EncryptedStorage(inner, { key: await generateKey() }),
+    });
+
+    auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+
+    (fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+    await auth.logout();
+    expect(inner.get('auth_access_token')).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { createJWTToken, jsonResponse } from './helpers';
+
+describe('Auth events', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const mockStorage = window.localStorage as jest.Mocked<Storage>;
+    const storage: Record<string, string> = {};
+
+    mockStorage.getItem.mockImplementation((key: string) => storage[key] || null);
+    mockStorage.setItem.mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    mockStorage.removeItem.mockImplementation((key: string) => {
+      delete storage[key];
+    });
+  });
+
+  it('should emit login and tokensChanged on login', async () => {
+    const auth = createAuthFlow(config);
+    const onLogin = jest.fn();
+    const onTokensChanged = jest.fn();
+    auth.on('login', onLogin);
+    auth.on('tokensChanged', onTokensChanged);
+
+    const body = { accessToken: 'access', refreshToken: 'refresh' };
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(body));
+
+    await auth.login({ email: 'test@example.com', password: 'password' });
+
+    const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+    expect(onLogin).toHaveBeenCalledWith({ tokens, data: body });
+    expect(onTokensChanged).toHaveBeenCalledWith({ tokens });
+  });
+
+  it('should emit logout and clear tokens', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    const onLogout = jest.fn();
+    const onTokensChanged = jest.fn();
+    auth.on('logout', onLogout);
+    auth.on('tokensChanged', onTokensChanged);
+
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}));
+    await auth.logout();
+
+    expect(onLogout).toHaveBeenCalledTimes(1);
+    expect(onTokensChanged).toHaveBeenCalledWith({ tokens: null });
+  });
+
+  it('should emit tokenRefreshed after a successful refresh', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'old-access', refreshToken: createJWTToken({ sub: '1' }) });
+
+    const onRefreshed = jest.fn();
+    auth.on('tokenRefreshed', onRefreshed);
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(
+        jsonResponse({ accessToken: 'new-access', refreshToken: 'new-refresh' })
+      )
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    await auth.get('/user/profile');
+
+    expect(onRefreshed).toHaveBeenCalledWith({
+      tokens: { accessToken: 'new-access', refreshToken: 'new-refresh' },
+    });
+  });
+
+  it('should emit refreshFailed and sessionExpired when refresh fails', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'old-access', refreshToken: createJWTToken({ sub: '1' }) });
+
+    const onRefreshFailed = jest.fn();
+    const onSessionExpired = jest.fn();
+    auth.on('refreshFailed', onRefreshFailed);
+    auth.on('sessionExpired', onSessionExpired);
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({}, 401));
+
+    await expect(auth.get('/user/profile')).rejects.toMatchObject({ status: 401 });
+
+    expect(onRefreshFailed).toHaveBeenCalledTimes(1);
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+    expect(auth.getTokens()).toBeNull();
+  });
+
+  it('should emit sessionExpired on 401 without a refresh token', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ accessToken: 'access-only' }));
+    await auth.login({ email: 'test@example.com', password: 'password' });
+
+    expect(auth.getTokens()).toEqual({ accessToken: 'access-only' });
+    expect(auth.isAuthenticated()).toBe(true);
+
+    const onRefreshFailed = jest.fn();
+    const onSessionExpired = jest.fn();
+    auth.on('refreshFailed', onRefreshFailed);
+    auth.on('sessionExpired', onSessionExpired);
+
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}, 401));
+
+    await expect(auth.get('/user/profile')).rejects.toMatchObject({ status: 401 });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(onRefreshFailed).not.toHaveBeenCalled();
+    expect(onSessionExpired).toHaveBeenCalledWith({ reason: 'No refresh token available' });
+    expect(auth.getTokens()).toBeNull();
+  });
+
+  it('should keep the refresh token when the refresh response has none', async () => {
+    const auth = createAuthFlow(config);
+    const refreshToken = createJWTToken({ sub: 'user-1' });
+    auth.setTokens({ accessToken: 'old', refreshToken, refreshExpiresAt: Date.now() + 60000 });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({ accessToken: 'new' }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    await auth.get('/user/profile');
+
+    expect(auth.getTokens()).toEqual({
+      accessToken: 'new',
+      refreshToken,
+      refreshExpiresAt: expect.any(Number),
+    });
+  });
+
+  it('should end an access-token-only session when the access token expires', () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: createJWTToken({ exp: Math.floor(Date.now() / 1000) - 60 }) });
+
+    expect(auth.isAuthenticated()).toBe(false);
+    expect(auth.getTokens()).toBeNull();
+  });
+
+  it('should emit sessionExpired when stored refresh token has expired', () => {
+    const auth = createAuthFlow(config);
+    const expired = createJWTToken({ exp: Math.floor(Date.now() / 1000) - 60 });
+    auth.setTokens({ accessToken: 'access', refreshToken: expired });
+
+    const onSessionExpired = jest.fn();
+    auth.on('sessionExpired', onSessionExpired);
+
+    expect(auth.isAuthenticated()).toBe(false);
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop notifying after unsubscribe', () => {
+    const auth = createAuthFlow(config);
+    const handler = jest.fn();
+    const unsubscribe = auth.on('tokensChanged', handler);
+
+    auth.setTokens({ accessToken: 'a', refreshToken: 'r' });
+    unsubscribe();
+    auth.setTokens({ accessToken: 'b', refreshToken: 'r' });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should isolate failing listeners', () => {
+    const auth = createAuthFlow(config);
+    const handler = jest.fn();
+    auth.on('tokensChanged', () => {
+      throw new Error('listener failure');
+    });
+    auth.on('tokensChanged', handler);
+
+    expect(() => auth.setTokens({ accessToken: 'a', refreshToken: 'r' })).not.toThrow();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
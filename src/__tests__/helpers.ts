@@ -0,0 +1,33 @@
+/**
+ * Shared test fixtures
+ */
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+};
+
+/**
+ * Build an unsigned JWT carrying payload
+ */
+export const createJWTToken = (payload: object, alg = 'HS256'): string => {
+  const header = btoa(JSON.stringify({ alg, typ: 'JWT' }));
+  const encodedPayload = btoa(JSON.stringify(payload));
+  return `${header}.${encodedPayload}.signature`;
+};
+
+/**
+ * Build a JSON fetch response
+ */
+export const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: STATUS_TEXT[status] ?? 'OK',
+  headers: new Headers({ 'content-type': 'application/json', ...headers }),
+  json: () => Promise.resolve(body),
+});
@@ -1,17 +1,12 @@
 import { createAuthFlow, Permissions } from '../index';
 import { AuthFlowConfig, TokenPair } from '../types';
+import { createJWTToken } from './helpers';
 
 describe('AuthFlow Integration', () => {
   const config: AuthFlowConfig = {
     baseURL: 'https://api.example.com',
   };
 
-  const createJWTToken = (payload: any): string => {
-    const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-    const encodedPayload = btoa(JSON.stringify(payload));
-    return `${header}.${encodedPayload}.signature`;
-  };
-
   beforeEach(() => {
     // Reset and properly configure localStorage mock
     jest.clearAllMocks();
@@ -0,0 +1,91 @@
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { jsonResponse } from './helpers';
+
+describe('Multi-factor login', () => {
+  let config: AuthFlowConfig;
+
+  const challengeResponse = {
+    mfaRequired: true,
+    challengeId: 'challenge-1',
+    methods: ['totp', 'sms', 'backup_code'],
+  };
+
+  beforeEach(() => {
+    config = { baseURL: 'https://api.example.com', storage: 'memory' };
+  });
+
+  it('should resolve with a challenge instead of storing tokens', async () => {
+    const auth = createAuthFlow(config);
+    const onLogin = jest.fn();
+    auth.on('login', onLogin);
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(challengeResponse));
+
+    const result = await auth.login({ email: 'test@example.com', password: 'password' });
+
+    expect(result).toEqual({
+      status: 'challenge',
+      challenge: {
+        challengeId: 'challenge-1',
+        methods: ['totp', 'sms', 'backup_code'],
+        data: challengeResponse,
+      },
+    });
+    expect(auth.getTokens()).toBeNull();
+    expect(onLogin).not.toHaveBeenCalled();
+  });
+
+  it('should store tokens once the challenge is answered', async () => {
+    const auth = createAuthFlow({ ...config, endpoints: { mfa: '/auth/mfa/verify' } });
+    const onLogin = jest.fn();
+    auth.on('login', onLogin);
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(challengeResponse))
+      .mockResolvedValueOnce(jsonResponse({ accessToken: 'access', refreshToken: 'refresh' }));
+
+    await auth.login({ email: 'test@example.com', password: 'password' });
+    const result = await auth.completeChallenge('challenge-1', { method: 'totp', code: '123456' });
+
+    expect(result).toEqual({
+      status: 'authenticated',
+      data: { accessToken: 'access', refreshToken: 'refresh' },
+    });
+    expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(onLogin).toHaveBeenCalledTimes(1);
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[1];
+    expect(url).toBe('https://api.example.com/auth/mfa/verify');
+    expect(JSON.parse(init.body)).toEqual({
+      challengeId: 'challenge-1',
+      method: 'totp',
+      code: '123456',
+    });
+  });
+
+  it('should keep the challenge open when a new SMS code is requested', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ sent: true }));
+
+    const result = await auth.completeChallenge('challenge-1', { method: 'sms' });
+
+    expect(result).toEqual({
+      status: 'challenge',
+      challenge: { challengeId: 'challenge-1', methods: ['sms'], data: { sent: true } },
+    });
+    expect(JSON.parse((fetch as jest.Mock).mock.calls[0][1].body)).toEqual({
+      challengeId: 'challenge-1',
+      method: 'sms',
+    });
+    expect(auth.getTokens()).toBeNull();
+  });
+
+  it('should reject a wrong code with the server error', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ error: 'invalid_code' }, 401));
+
+    await expect(
+      auth.completeChallenge('challenge-1', { method: 'backup_code', code: 'wrong' })
+    ).rejects.toMatchObject({ status: 401, data: { error: 'invalid_code' } });
+    expect(auth.getTokens()).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { webcrypto, createHash } from 'crypto';
+import { TextEncoder } from 'util';
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { jsonResponse } from './helpers';
+
+describe('OAuth Authorization Code with PKCE', () => {
+  const originalCrypto = global.crypto;
+
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    storage: 'memory',
+    oauth: {
+      clientId: 'spa-client',
+      authorizationEndpoint: 'https://id.example.com/authorize',
+      tokenEndpoint: 'https://id.example.com/oauth/token',
+      redirectUri: 'https://app.example.com/callback',
+      scope: 'openid profile',
+    },
+  };
+
+  beforeAll(() => {
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    Object.assign(global, { TextEncoder });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(global, 'crypto', { value: originalCrypto, configurable: true });
+  });
+
+  beforeEach(() => {
+    // Session storage shares the localStorage mock in tests
+    const mockStorage = window.sessionStorage as jest.Mocked<Storage>;
+    const storage: Record<string, string> = {};
+
+    mockStorage.getItem.mockImplementation((key: string) => storage[key] || null);
+    mockStorage.setItem.mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    mockStorage.removeItem.mockImplementation((key: string) => {
+      delete storage[key];
+    });
+  });
+
+  it('should build an authorize URL with an S256 challenge', async () => {
+    const auth = createAuthFlow(config);
+
+    const url = new URL(await auth.createAuthorizeUrl({ state: 'xyz' }));
+    const params = url.searchParams;
+
+    expect(url.origin + url.pathname).toBe('https://id.example.com/authorize');
+    expect(params.get('response_type')).toBe('code');
+    expect(params.get('client_id')).toBe('spa-client');
+    expect(params.get('redirect_uri')).toBe('https://app.example.com/callback');
+    expect(params.get('scope')).toBe('openid profile');
+    expect(params.get('state')).toBe('xyz');
+    expect(params.get('code_challenge_method')).toBe('S256');
+
+    const verifier = window.sessionStorage.getItem('auth_oauth_verifier') as string;
+    const expectedChallenge = createHash('sha256').update(verifier).digest('base64url');
+    expect(params.get('code_challenge')).toBe(expectedChallenge);
+  });
+
+  it('should exchange the code and store tokens', async () => {
+    const auth = createAuthFlow(config);
+    const onLogin = jest.fn();
+    auth.on('login', onLogin);
+
+    await auth.createAuthorizeUrl({ state: 'xyz' });
+    const verifier = window.sessionStorage.getItem('auth_oauth_verifier');
+
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse({ access_token: 'access', refresh_token: 'refresh', token_type: 'Bearer' })
+    );
+
+    await auth.handleRedirectCallback('https://app.example.com/callback?code=abc&state=xyz');
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://id.example.com/oauth/token');
+    expect(init.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+      grant_type: 'authorization_code',
+      code: 'abc',
+      redirect_uri: 'https://app.example.com/callback',
+      client_id: 'spa-client',
+      code_verifier: verifier,
+    });
+
+    expect(auth.getTokens()).toEqual({
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      tokenType: 'Bearer',
+    });
+    expect(onLogin).toHaveBeenCalledTimes(1);
+    expect(window.sessionStorage.getItem('auth_oauth_verifier')).toBeNull();
+  });
+
+  it('should reject a callback with a mismatched state', async () => {
+    const auth = createAuthFlow(config);
+    await auth.createAuthorizeUrl({ state: 'xyz' });
+
+    await expect(
+      auth.handleRedirectCallback('https://app.example.com/callback?code=abc&state=other')
+    ).rejects.toThrow('Invalid OAuth state');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should surface provider errors', async () => {
+    const auth = createAuthFlow(config);
+    await auth.createAuthorizeUrl();
+
+    await expect(
+      auth.handleRedirectCallback('https://app.example.com/callback?error=access_denied')
+    ).rejects.toThrow('Authorization failed: access_denied');
+  });
+
+  it('should refresh with a refresh_token grant', async () => {
+    const auth = createAuthFlow(config);
+    const refreshToken = `${btoa('{}')}.${btoa('{"sub":"1"}')}.sig`;
+    auth.setTokens({ accessToken: 'old-access', refreshToken });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({ access_token: 'new-access' }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    await auth.get('/user/profile');
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[1];
+    expect(url).toBe('https://id.example.com/oauth/token');
+    expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: 'spa-client',
+    });
+
+    // Provider did not rotate the refresh token
+    expect(auth.getTokens()).toEqual({ accessToken: 'new-access', refreshToken });
+  });
+
+  it('should throw when OAuth is not configured', async () => {
+    const auth = createAuthFlow({ baseURL: 'https://api.example.com' });
+    await expect(auth.createAuthorizeUrl()).rejects.toThrow('OAuth is not configured');
+  });
+});
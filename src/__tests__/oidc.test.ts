@@ -0,0 +1,265 @@
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { createJWTToken, jsonResponse } from './helpers';
+
+describe('OpenID Connect', () => {
+  const originalCrypto = global.crypto;
+
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    storage: 'memory',
+    oauth: {
+      clientId: 'spa-client',
+      issuer: 'https://id.example.com',
+      redirectUri: 'https://app.example.com/callback',
+      scope: 'openid profile',
+    },
+  };
+
+  const discovery = {
+    issuer: 'https://id.example.com',
+    authorization_endpoint: 'https://id.example.com/authorize',
+    token_endpoint: 'https://id.example.com/oauth/token',
+    userinfo_endpoint: 'https://id.example.com/userinfo',
+  };
+
+  const idTokenFor = (nonce: string | null, overrides: Record<string, unknown> = {}) =>
+    createJWTToken(
+      {
+        iss: 'https://id.example.com',
+        aud: 'spa-client',
+        sub: 'user-1',
+        exp: Math.floor(Date.now() / 1000) + 3600,
+        ...(nonce && { nonce }),
+        ...overrides,
+      },
+      'RS256'
+    );
+
+  const startLogin = async (auth: ReturnType<typeof createAuthFlow>) => {
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(discovery));
+    const url = new URL(await auth.createAuthorizeUrl({ state: 'xyz' }));
+    return url.searchParams.get('nonce');
+  };
+
+  beforeAll(() => {
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    Object.assign(global, { TextEncoder });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(global, 'crypto', { value: originalCrypto, configurable: true });
+  });
+
+  beforeEach(() => {
+    // Session storage shares the localStorage mock in tests
+    const mockStorage = window.sessionStorage as jest.Mocked<Storage>;
+    const storage: Record<string, string> = {};
+
+    mockStorage.getItem.mockImplementation((key: string) => storage[key] || null);
+    mockStorage.setItem.mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    mockStorage.removeItem.mockImplementation((key: string) => {
+      delete storage[key];
+    });
+  });
+
+  it('should discover endpoints from the issuer', async () => {
+    const auth = createAuthFlow(config);
+
+    const nonce = await startLogin(auth);
+
+    expect((fetch as jest.Mock).mock.calls[0][0]).toBe(
+      'https://id.example.com/.well-known/openid-configuration'
+    );
+    expect(nonce).toBeTruthy();
+
+    // Metadata is cached for later calls
+    await auth.createAuthorizeUrl();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject metadata for a different issuer', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse({ ...discovery, issuer: 'https://evil.example.com' })
+    );
+
+    await expect(auth.createAuthorizeUrl()).rejects.toThrow('Discovered issuer does not match');
+  });
+
+  it('should store and expose a valid ID token', async () => {
+    const auth = createAuthFlow(config);
+    const nonce = await startLogin(auth);
+    const idToken = idTokenFor(nonce, { name: 'Test User' });
+
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse({ access_token: 'access', refresh_token: 'refresh', id_token: idToken })
+    );
+
+    await auth.handleRedirectCallback('https://app.example.com/callback?code=abc&state=xyz');
+
+    expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh', idToken });
+    expect(auth.getIdTokenClaims()).toMatchObject({ sub: 'user-1', name: 'Test User' });
+  });
+
+  it.each([
+    ['nonce', () => idTokenFor('other'), 'nonce mismatch'],
+    ['issuer', (nonce: string | null) => idTokenFor(nonce, { iss: 'x' }), 'issuer mismatch'],
+    ['audience', (nonce: string | null) => idTokenFor(nonce, { aud: ['x'] }), 'audience mismatch'],
+    ['expiry', (nonce: string | null) => idTokenFor(nonce, { exp: 1 }), 'ID token expired'],
+  ])('should reject an ID token with an invalid %s', async (_, buildToken, message) => {
+    const auth = createAuthFlow(config);
+    const nonce = await startLogin(auth);
+
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse({
+        access_token: 'access',
+        refresh_token: 'refresh',
+        id_token: buildToken(nonce),
+      })
+    );
+
+    await expect(
+      auth.handleRedirectCallback('https://app.example.com/callback?code=abc&state=xyz')
+    ).rejects.toThrow(message);
+    expect(auth.getTokens()).toBeNull();
+  });
+
+  it('should fetch userinfo with the access token', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'access', refreshToken: createJWTToken({ sub: 'user-1' }) });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(discovery))
+      .mockResolvedValueOnce(jsonResponse({ sub: 'user-1', email: 'test@example.com' }));
+
+    await expect(auth.fetchUserInfo()).resolves.toEqual({
+      sub: 'user-1',
+      email: 'test@example.com',
+    });
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[1];
+    expect(url).toBe('https://id.example.com/userinfo');
+    expect(init.headers.Authorization).toBe('Bearer access');
+  });
+
+  it('should prefer explicit endpoints over discovered ones', async () => {
+    const auth = createAuthFlow({
+      ...config,
+      oauth: { ...config.oauth!, authorizationEndpoint: 'https://login.example.com/auth' },
+    });
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(discovery));
+
+    const url = new URL(await auth.createAuthorizeUrl());
+    expect(url.origin + url.pathname).toBe('https://login.example.com/auth');
+  });
+});
+
+describe('Logout with revocation and end session', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    storage: 'localStorage',
+    oauth: {
+      clientId: 'spa-client',
+      authorizationEndpoint: 'https://id.example.com/authorize',
+      tokenEndpoint: 'https://id.example.com/oauth/token',
+      revocationEndpoint: 'https://id.example.com/oauth/revoke',
+      endSessionEndpoint: 'https://id.example.com/logout',
+      redirectUri: 'https://app.example.com/callback',
+      postLogoutRedirectUri: 'https://app.example.com/',
+    },
+  };
+
+  const tokens = { accessToken: 'access', refreshToken: 'refresh', idToken: 'id-token' };
+
+  const revokedTokens = () =>
+    (fetch as jest.Mock).mock.calls
+      .filter(([url]) => url === 'https://id.example.com/oauth/revoke')
+      .map(([, init]) => Object.fromEntries(new URLSearchParams(init.body)));
+
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    const mockStorage = window.localStorage as jest.Mocked<Storage>;
+    storage = {};
+
+    mockStorage.getItem.mockImplementation((key: string) => storage[key] || null);
+    mockStorage.setItem.mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    mockStorage.removeItem.mockImplementation((key: string) => {
+      delete storage[key];
+    });
+  });
+
+  it('should revoke the refresh and access tokens', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens(tokens);
+    (fetch as jest.Mock).mockResolvedValue(jsonResponse({}));
+
+    await auth.logout({ revokeTokens: true });
+
+    expect(revokedTokens()).toEqual([
+      { token: 'refresh', token_type_hint: 'refresh_token', client_id: 'spa-client' },
+      { token: 'access', token_type_hint: 'access_token', client_id: 'spa-client' },
+    ]);
+    expect(auth.getTokens()).toBeNull();
+    expect(storage['auth_pending_revocations']).toBeUndefined();
+  });
+
+  it('should retry failed revocations on the next startup', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens(tokens);
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({}));
+
+    await auth.logout({ revokeTokens: true });
+
+    expect(JSON.parse(storage['auth_pending_revocations'] as string)).toEqual([
+      { token: 'refresh', tokenTypeHint: 'refresh_token' },
+    ]);
+
+    (fetch as jest.Mock).mockReset().mockResolvedValue(jsonResponse({}));
+    const restarted = createAuthFlow(config);
+    await restarted.ready;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(revokedTokens()).toEqual([
+      { token: 'refresh', token_type_hint: 'refresh_token', client_id: 'spa-client' },
+    ]);
+    expect(storage['auth_pending_revocations']).toBeUndefined();
+  });
+
+  it('should build the end session URL with an ID token hint', async () => {
+    const auth = createAuthFlow(config);
+    const assign = jest.fn();
+    const originalLocation = window.location;
+    Object.defineProperty(window, 'location', {
+      value: { ...originalLocation, assign },
+      configurable: true,
+    });
+
+    auth.setTokens(tokens);
+    (fetch as jest.Mock).mockResolvedValue(jsonResponse({}));
+
+    try {
+      await auth.logout({ endSession: true });
+    } finally {
+      Object.defineProperty(window, 'location', { value: originalLocation, configurable: true });
+    }
+
+    const url = new URL(assign.mock.calls[0][0]);
+    expect(url.origin + url.pathname).toBe('https://id.example.com/logout');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      client_id: 'spa-client',
+      id_token_hint: 'id-token',
+      post_logout_redirect_uri: 'https://app.example.com/',
+    });
+  });
+});
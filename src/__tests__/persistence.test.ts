@@ -0,0 +1,107 @@
+import { createAuthFlow, MemoryStorage } from '../index';
+import { AuthFlowConfig, LoginOptions } from '../types';
+import { jsonResponse } from './helpers';
+
+describe('Per-session persistence', () => {
+  let browserStore: Record<string, string>;
+  const config: AuthFlowConfig = { baseURL: 'https://api.example.com', storage: 'memory' };
+
+  const login = (auth: ReturnType<typeof createAuthFlow>, options: LoginOptions = {}) => {
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse({ accessToken: 'access', refreshToken: 'refresh' })
+    );
+    return auth.login({ email: 'test@example.com', password: 'password' }, options);
+  };
+
+  beforeEach(() => {
+    // localStorage and sessionStorage share one mock in tests
+    browserStore = {};
+    const mockStorage = window.localStorage as jest.Mocked<Storage>;
+    mockStorage.getItem.mockImplementation((key: string) => browserStore[key] ?? null);
+    mockStorage.setItem.mockImplementation((key: string, value: string) => {
+      browserStore[key] = value;
+    });
+    mockStorage.removeItem.mockImplementation((key: string) => {
+      delete browserStore[key];
+    });
+  });
+
+  it('should keep the session in the backend chosen at login', async () => {
+    const auth = createAuthFlow(config);
+
+    await login(auth, { persist: 'local' });
+
+    expect(browserStore.auth_access_token).toBe('access');
+    expect(browserStore.auth_refresh_token).toBe('refresh');
+    expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+  });
+
+  it('should find a persisted session after a reload', async () => {
+    await login(createAuthFlow(config), { persist: 'local' });
+
+    const reloaded = createAuthFlow(config);
+    await reloaded.ready;
+
+    expect(reloaded.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+  });
+
+  it('should not adopt tokens another configuration left in browser storage', async () => {
+    browserStore.auth_access_token = 'foreign';
+
+    const auth = createAuthFlow(config);
+    await auth.ready;
+
+    expect(auth.getTokens()).toBeNull();
+  });
+
+  it('should forget a memory session on reload', async () => {
+    const auth = createAuthFlow(config);
+    await login(auth, { persist: 'memory' });
+
+    expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(browserStore.auth_access_token).toBeUndefined();
+    expect(createAuthFlow(config).getTokens()).toBeNull();
+  });
+
+  it('should remove the previous session when another backend is chosen', async () => {
+    const auth = createAuthFlow({ ...config, storage: 'localStorage' });
+    await login(auth);
+    expect(browserStore.auth_access_token).toBe('access');
+
+    await login(auth, { persist: 'memory' });
+
+    expect(browserStore.auth_access_token).toBeUndefined();
+    expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+  });
+
+  it('should clear every backend on logout', async () => {
+    const auth = createAuthFlow(config);
+    await login(auth, { persist: 'local' });
+
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({}));
+    await auth.logout();
+
+    expect(auth.getTokens()).toBeNull();
+    expect(Object.keys(browserStore).filter((key) => key.startsWith('auth_'))).toEqual([]);
+
+    // Later sessions use the configured storage again
+    await login(auth);
+    expect(browserStore.auth_access_token).toBeUndefined();
+    expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+  });
+
+  it('should reject persist with a custom adapter or cookies', async () => {
+    const credentials = { email: 'test@example.com', password: 'password' };
+    const custom = createAuthFlow({ ...config, storage: new MemoryStorage() });
+    const cookie = createAuthFlow({ ...config, storage: 'cookie' });
+
+    await expect(custom.login(credentials, { persist: 'local' })).rejects.toThrow(
+      'persist requires'
+    );
+    await expect(cookie.login(credentials, { persist: 'session' })).rejects.toThrow(
+      'persist requires'
+    );
+    expect(fetch).not.toHaveBeenCalled();
+    expect(browserStore).toEqual({});
+  });
+});
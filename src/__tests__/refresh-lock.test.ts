@@ -0,0 +1,127 @@
+import { createAuthFlow } from '../index';
+import { AsyncStorageAdapter, AuthFlowConfig } from '../types';
+import { createJWTToken, jsonResponse } from './helpers';
+
+describe('Cross-tab refresh lock', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    refreshLock: true,
+  };
+
+  const oldRefreshToken = createJWTToken({ jti: 'old' });
+  const newTokens = { accessToken: 'new-access', refreshToken: createJWTToken({ jti: 'new' }) };
+
+  beforeEach(() => {
+    const mockStorage = window.localStorage as jest.Mocked<Storage>;
+    const storage: Record<string, string> = {};
+
+    mockStorage.getItem.mockImplementation((key: string) => storage[key] || null);
+    mockStorage.setItem.mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+    mockStorage.removeItem.mockImplementation((key: string) => {
+      delete storage[key];
+    });
+
+    // Simulated backend with rotating refresh tokens
+    (fetch as jest.Mock).mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/auth/refresh')) {
+        const body = JSON.parse(init.body as string);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return body.refreshToken === oldRefreshToken
+          ? jsonResponse(newTokens)
+          : jsonResponse({}, 401);
+      }
+
+      const headers = init.headers as Record<string, string>;
+      return headers.Authorization === 'Bearer new-access'
+        ? jsonResponse({ ok: true })
+        : jsonResponse({}, 401);
+    });
+  });
+
+  const refreshCalls = () =>
+    (fetch as jest.Mock).mock.calls.filter(([url]) => url.endsWith('/auth/refresh'));
+
+  const expectSingleRefresh = async () => {
+    const tabA = createAuthFlow(config);
+    const tabB = createAuthFlow(config);
+    tabA.setTokens({ accessToken: 'old-access', refreshToken: oldRefreshToken });
+
+    const onRefreshedB = jest.fn();
+    tabB.on('tokenRefreshed', onRefreshedB);
+
+    const [resultA, resultB] = await Promise.all([tabA.get('/data'), tabB.get('/data')]);
+
+    expect(resultA.data).toEqual({ ok: true });
+    expect(resultB.data).toEqual({ ok: true });
+    expect(refreshCalls()).toHaveLength(1);
+    expect(onRefreshedB).toHaveBeenCalledWith({ tokens: newTokens });
+  };
+
+  describe('with Web Locks', () => {
+    beforeEach(() => {
+      let tail: Promise<unknown> = Promise.resolve();
+      const locks = {
+        request: (_name: string, callback: () => Promise<unknown>) => {
+          const run = tail.then(() => callback());
+          tail = run.catch(() => undefined);
+          return run;
+        },
+      };
+      Object.defineProperty(navigator, 'locks', { value: locks, configurable: true });
+    });
+
+    afterEach(() => {
+      delete (navigator as { locks?: unknown }).locks;
+    });
+
+    it('should call the refresh endpoint only once across tabs', expectSingleRefresh);
+  });
+
+  describe('with storage lease fallback', () => {
+    it('should call the refresh endpoint only once across tabs', expectSingleRefresh);
+
+    it('should release the lease after refreshing', async () => {
+      const tab = createAuthFlow(config);
+      tab.setTokens({ accessToken: 'old-access', refreshToken: oldRefreshToken });
+
+      await tab.get('/data');
+
+      expect(window.localStorage.getItem('auth_refresh_lock')).toBeNull();
+    });
+
+    it('should hold the lease in localStorage and re-read async token storage', async () => {
+      // Shared by both tabs like IndexedDB, each tab caches it in memory
+      const store = new Map([
+        ['auth_access_token', 'old-access'],
+        ['auth_refresh_token', oldRefreshToken],
+      ]);
+      const adapter: AsyncStorageAdapter = {
+        async: true,
+        get: async (key) => store.get(key) ?? null,
+        set: async (key, value) => {
+          store.set(key, value);
+        },
+        remove: async (key) => {
+          store.delete(key);
+        },
+        clear: async () => store.clear(),
+      };
+
+      const tabA = createAuthFlow({ ...config, storage: adapter });
+      const tabB = createAuthFlow({ ...config, storage: adapter });
+      await Promise.all([tabA.ready, tabB.ready]);
+
+      const [resultA, resultB] = await Promise.all([tabA.get('/data'), tabB.get('/data')]);
+
+      expect(resultA.data).toEqual({ ok: true });
+      expect(resultB.data).toEqual({ ok: true });
+      expect(refreshCalls()).toHaveLength(1);
+      expect(window.localStorage.setItem).toHaveBeenCalledWith(
+        'auth_refresh_lock',
+        expect.any(String)
+      );
+    });
+  });
+});
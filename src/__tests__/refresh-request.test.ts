@@ -0,0 +1,132 @@
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { createJWTToken, jsonResponse } from './helpers';
+
+describe('Refresh request format', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    storage: 'memory',
+  };
+
+  const refreshToken = createJWTToken({ sub: '1' });
+
+  // Trigger a refresh through a 401 and return the refresh call
+  const refreshVia401 = async (auth: ReturnType<typeof createAuthFlow>) => {
+    auth.setTokens({ accessToken: 'old-access', refreshToken });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({ accessToken: 'new-access', refreshToken }))
+      .mockResolvedValueOnce(jsonResponse({ data: 'test' }));
+
+    await auth.get('/user/profile');
+
+    return (fetch as jest.Mock).mock.calls[1];
+  };
+
+  it('should post JSON { refreshToken } by default', async () => {
+    const [url, init] = await refreshVia401(createAuthFlow(config));
+
+    expect(url).toBe('https://api.example.com/auth/refresh');
+    expect(init.method).toBe('POST');
+    expect(init.headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(init.body)).toEqual({ refreshToken });
+  });
+
+  it('should send a form-encoded grant with extra parameters', async () => {
+    const auth = createAuthFlow({
+      ...config,
+      refreshRequest: {
+        encoding: 'form',
+        tokenField: 'refresh_token',
+        params: { grant_type: 'refresh_token', client_id: 'web' },
+      },
+    });
+
+    const [, init] = await refreshVia401(auth);
+
+    expect(init.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+      grant_type: 'refresh_token',
+      client_id: 'web',
+      refresh_token: refreshToken,
+    });
+    expect(auth.getTokens()?.accessToken).toBe('new-access');
+  });
+
+  it('should place the refresh token in a header', async () => {
+    const auth = createAuthFlow({
+      ...config,
+      refreshRequest: {
+        method: 'PUT',
+        tokenPlacement: 'header',
+        headerName: 'X-Refresh-Token',
+        headerScheme: '',
+      },
+    });
+
+    const [, init] = await refreshVia401(auth);
+
+    expect(init.method).toBe('PUT');
+    expect(init.headers['X-Refresh-Token']).toBe(refreshToken);
+    expect(JSON.parse(init.body)).toEqual({});
+  });
+
+  it('should send the token and params as a query string with GET', async () => {
+    const auth = createAuthFlow({
+      ...config,
+      refreshRequest: { method: 'GET', params: { client_id: 'web' } },
+    });
+
+    const [url, init] = await refreshVia401(auth);
+
+    expect(init.method).toBe('GET');
+    expect(init.body).toBeUndefined();
+    const query = new URL(url).searchParams;
+    expect(query.get('client_id')).toBe('web');
+    expect(query.get('refreshToken')).toBe(refreshToken);
+    expect(auth.getTokens()?.accessToken).toBe('new-access');
+  });
+
+  it('should rely on cookies when the token lives in an HttpOnly cookie', async () => {
+    const auth = createAuthFlow({ ...config, refreshRequest: { tokenPlacement: 'cookie' } });
+    (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse({ accessToken: 'old-access' }));
+    await auth.login({ email: 'test@example.com', password: 'password' });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({ accessToken: 'new-access' }))
+      .mockResolvedValueOnce(jsonResponse({ data: 'test' }));
+
+    const response = await auth.get('/user/profile');
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[2];
+    expect(url).toBe('https://api.example.com/auth/refresh');
+    expect(init.credentials).toBe('include');
+    expect(JSON.parse(init.body)).toEqual({});
+    expect((fetch as jest.Mock).mock.calls[3][1].headers.Authorization).toBe('Bearer new-access');
+    expect(response.data).toEqual({ data: 'test' });
+  });
+
+  it('should keep a cookie refresh session past the access token expiry', () => {
+    const auth = createAuthFlow({ ...config, refreshRequest: { tokenPlacement: 'cookie' } });
+    auth.setTokens({ accessToken: createJWTToken({ exp: Math.floor(Date.now() / 1000) - 60 }) });
+
+    expect(auth.isAuthenticated()).toBe(true);
+  });
+
+  it('should let a function perform the whole refresh', async () => {
+    const refreshRequest = jest.fn().mockResolvedValue({ accessToken: 'custom', refreshToken });
+    const auth = createAuthFlow({ ...config, refreshRequest });
+    auth.setTokens({ accessToken: 'old-access', refreshToken });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse({}, 401))
+      .mockResolvedValueOnce(jsonResponse({ data: 'test' }));
+
+    await auth.get('/user/profile');
+
+    expect(refreshRequest).toHaveBeenCalledWith(refreshToken);
+    expect((fetch as jest.Mock).mock.calls[1][1].headers.Authorization).toBe('Bearer custom');
+  });
+});
@@ -0,0 +1,195 @@
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { createJWTToken, jsonResponse } from './helpers';
+
+describe('Proactive token refresh', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    storage: 'memory',
+    autoRefresh: { leewaySeconds: 30 },
+  };
+
+  const expiringIn = (seconds: number) =>
+    createJWTToken({ exp: Math.floor(Date.now() / 1000) + seconds });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    (fetch as jest.Mock).mockReset();
+  });
+
+  it('should refresh before the access token expires', async () => {
+    const auth = createAuthFlow(config);
+    const refreshed = expiringIn(3600);
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse({ accessToken: refreshed, refreshToken: expiringIn(7200) })
+    );
+
+    auth.setTokens({ accessToken: expiringIn(90), refreshToken: expiringIn(7200) });
+
+    await jest.advanceTimersByTimeAsync(59 * 1000);
+    expect(fetch).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2 * 1000);
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.example.com/auth/refresh',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(auth.getTokens()?.accessToken).toBe(refreshed);
+
+    auth.destroy();
+  });
+
+  it('should use the server-reported expiry for opaque tokens', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse({ accessToken: 'opaque-2', refreshToken: 'opaque-refresh', expires_in: 3600 })
+    );
+
+    auth.setTokens({
+      accessToken: 'opaque',
+      refreshToken: 'opaque-refresh',
+      expiresAt: Date.now() + 90 * 1000,
+    });
+
+    await jest.advanceTimersByTimeAsync(59 * 1000);
+    expect(fetch).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2 * 1000);
+    expect(auth.getTokens()?.accessToken).toBe('opaque-2');
+
+    auth.destroy();
+  });
+
+  it('should refresh a token shorter than the leeway halfway through its lifetime', async () => {
+    const auth = createAuthFlow({ ...config, autoRefresh: true });
+    const shortLived = () => {
+      const now = Math.floor(Date.now() / 1000);
+      return createJWTToken({ iat: now, exp: now + 30 });
+    };
+    (fetch as jest.Mock).mockImplementation(async () =>
+      jsonResponse({ accessToken: shortLived(), refreshToken: expiringIn(7200) })
+    );
+
+    auth.setTokens({ accessToken: shortLived(), refreshToken: expiringIn(7200) });
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(fetch).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(15 * 1000);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(15 * 1000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    auth.destroy();
+  });
+
+  it('should space out refreshes when the local clock runs ahead', async () => {
+    const auth = createAuthFlow(config);
+    // Issued by a server whose clock is a minute behind, already expired locally
+    const behind = () => {
+      const now = Math.floor(Date.now() / 1000);
+      return createJWTToken({ iat: now - 60, exp: now - 30 });
+    };
+    (fetch as jest.Mock).mockImplementation(async () =>
+      jsonResponse({ accessToken: behind(), refreshToken: expiringIn(7200) })
+    );
+
+    auth.setTokens({ accessToken: behind(), refreshToken: expiringIn(7200) });
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(10 * 1000);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    auth.destroy();
+  });
+
+  it('should retry a failed refresh with a growing delay', async () => {
+    const auth = createAuthFlow(config);
+    const onFailed = jest.fn();
+    auth.on('refreshFailed', onFailed);
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 500,
+      statusText: 'Server Error',
+      headers: new Headers(),
+      json: () => Promise.resolve({}),
+    });
+
+    auth.setTokens({ accessToken: expiringIn(40), refreshToken: expiringIn(7200) });
+
+    await jest.advanceTimersByTimeAsync(20 * 1000);
+    expect(onFailed).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(9 * 1000);
+    expect(onFailed).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onFailed).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(19 * 1000);
+    expect(onFailed).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onFailed).toHaveBeenCalledTimes(3);
+
+    auth.destroy();
+  });
+
+  it('should reschedule when tokens are replaced', async () => {
+    const auth = createAuthFlow(config);
+
+    auth.setTokens({ accessToken: expiringIn(60), refreshToken: expiringIn(7200) });
+    auth.setTokens({ accessToken: expiringIn(3600), refreshToken: expiringIn(7200) });
+
+    await jest.advanceTimersByTimeAsync(120 * 1000);
+    expect(fetch).not.toHaveBeenCalled();
+
+    auth.destroy();
+  });
+
+  it('should not refresh after logout or destroy', async () => {
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValue(jsonResponse({}));
+
+    auth.setTokens({ accessToken: expiringIn(60), refreshToken: expiringIn(7200) });
+    await auth.logout();
+    (fetch as jest.Mock).mockClear();
+
+    auth.setTokens({ accessToken: expiringIn(60), refreshToken: expiringIn(7200) });
+    auth.destroy();
+
+    await jest.advanceTimersByTimeAsync(120 * 1000);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should pause while the page is hidden', async () => {
+    const visibility = jest.spyOn(document, 'visibilityState', 'get');
+    const auth = createAuthFlow(config);
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      jsonResponse({ accessToken: expiringIn(3600), refreshToken: expiringIn(7200) })
+    );
+
+    auth.setTokens({ accessToken: expiringIn(60), refreshToken: expiringIn(7200) });
+
+    visibility.mockReturnValue('hidden');
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    await jest.advanceTimersByTimeAsync(120 * 1000);
+    expect(fetch).not.toHaveBeenCalled();
+
+    visibility.mockReturnValue('visible');
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    auth.destroy();
+  });
+});
@@ -0,0 +1,130 @@
+import { createAuthFlow, MemoryStorage } from '../index';
+import { AuthFlowConfig } from '../types';
+import { jsonResponse } from './helpers';
+
+describe('Session policy', () => {
+  const config: AuthFlowConfig = {
+    baseURL: 'https://api.example.com',
+    storage: 'memory',
+    sessionPolicy: { idleTimeoutSeconds: 15 * 60, absoluteTimeoutSeconds: 12 * 60 * 60 },
+  };
+
+  const minutes = (count: number) => count * 60 * 1000;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (fetch as jest.Mock).mockResolvedValue(jsonResponse({}));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    (fetch as jest.Mock).mockReset();
+  });
+
+  it('should warn and then log out after the idle timeout', async () => {
+    const auth = createAuthFlow(config);
+    const onWarning = jest.fn();
+    const onExpired = jest.fn();
+    auth.on('sessionWarning', onWarning);
+    auth.on('sessionExpired', onExpired);
+    auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+    const start = Date.now();
+
+    await jest.advanceTimersByTimeAsync(minutes(14) - 1000);
+    expect(onWarning).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onWarning).toHaveBeenCalledWith({ reason: 'idle', expiresAt: start + minutes(15) });
+
+    await jest.advanceTimersByTimeAsync(minutes(1));
+    expect(onExpired).toHaveBeenCalledWith({ reason: 'Idle timeout' });
+    expect(auth.getTokens()).toBeNull();
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.example.com/auth/logout',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'Bearer access' }),
+      })
+    );
+
+    auth.destroy();
+  });
+
+  it('should restart the idle timer on user input and requests', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    await jest.advanceTimersByTimeAsync(minutes(10));
+    window.dispatchEvent(new Event('keydown'));
+
+    await jest.advanceTimersByTimeAsync(minutes(10));
+    await auth.get('/user/profile');
+
+    await jest.advanceTimersByTimeAsync(minutes(14));
+    expect(auth.isAuthenticated()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(minutes(1));
+    expect(auth.isAuthenticated()).toBe(false);
+
+    auth.destroy();
+  });
+
+  it('should end the session after the absolute timeout whatever the activity', async () => {
+    const auth = createAuthFlow({
+      ...config,
+      sessionPolicy: { idleTimeoutSeconds: 15 * 60, absoluteTimeoutSeconds: 30 * 60 },
+    });
+    const onExpired = jest.fn();
+    auth.on('sessionExpired', onExpired);
+    auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    await jest.advanceTimersByTimeAsync(minutes(10));
+    auth.extendSession();
+    await jest.advanceTimersByTimeAsync(minutes(10));
+    auth.extendSession();
+    await jest.advanceTimersByTimeAsync(minutes(10));
+
+    expect(onExpired).toHaveBeenCalledWith({ reason: 'Session lifetime exceeded' });
+    expect(auth.isAuthenticated()).toBe(false);
+
+    auth.destroy();
+  });
+
+  it('should end a timed out session even if its timer has not fired', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    // The device slept, no timer ran in the meantime
+    jest.setSystemTime(Date.now() + minutes(20));
+
+    await expect(auth.get('/user/profile')).rejects.toThrow('Session expired');
+    expect(fetch).not.toHaveBeenCalledWith(
+      'https://api.example.com/user/profile',
+      expect.anything()
+    );
+    expect(auth.isAuthenticated()).toBe(false);
+
+    auth.destroy();
+  });
+
+  it('should share activity between instances using the same storage', async () => {
+    const storage = new MemoryStorage();
+    const first = createAuthFlow({ ...config, storage });
+    const second = createAuthFlow({ ...config, storage });
+    const onExpired = jest.fn();
+    second.on('sessionExpired', onExpired);
+
+    first.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+    second.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    await jest.advanceTimersByTimeAsync(minutes(10));
+    first.extendSession();
+
+    await jest.advanceTimersByTimeAsync(minutes(10));
+    expect(onExpired).not.toHaveBeenCalled();
+    expect(second.isAuthenticated()).toBe(true);
+
+    first.destroy();
+    second.destroy();
+  });
+});
@@ -0,0 +1,132 @@
+import { createAuthFlow } from '../index';
+import { AuthFlowConfig } from '../types';
+import { parseWWWAuthenticate } from '../utils/www-authenticate';
+import { jsonResponse } from './helpers';
+
+describe('Step-up authentication', () => {
+  let config: AuthFlowConfig;
+
+  const insufficientScope = () =>
+    jsonResponse({}, 403, {
+      'WWW-Authenticate': 'Bearer realm="api", error="insufficient_scope", scope="payments:write"',
+    });
+
+  beforeEach(() => {
+    config = { baseURL: 'https://api.example.com', storage: 'memory' };
+  });
+
+  it('should parse WWW-Authenticate challenges', () => {
+    expect(
+      parseWWWAuthenticate(
+        'Bearer realm="api", error="insufficient_user_authentication", ' +
+          'error_description="A \\"fresh\\" login is required", acr_values="mfa", max_age=300, ' +
+          'DPoP algs="ES256"'
+      )
+    ).toEqual([
+      {
+        scheme: 'Bearer',
+        params: {
+          realm: 'api',
+          error: 'insufficient_user_authentication',
+          error_description: 'A "fresh" login is required',
+          acr_values: 'mfa',
+          max_age: '300',
+        },
+      },
+      { scheme: 'DPoP', params: { algs: 'ES256' } },
+    ]);
+  });
+
+  it('should retry with the upgraded token after insufficient_scope', async () => {
+    const stepUp = jest.fn().mockResolvedValue({ accessToken: 'upgraded', refreshToken: 'r2' });
+    const auth = createAuthFlow({ ...config, stepUp });
+    auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(insufficientScope())
+      .mockResolvedValueOnce(jsonResponse({ paid: true }));
+
+    const response = await auth.post('/payments', { amount: 10 });
+
+    expect(response.data).toEqual({ paid: true });
+    expect(stepUp).toHaveBeenCalledWith({
+      error: 'insufficient_scope',
+      scope: 'payments:write',
+      method: 'POST',
+      url: '/payments',
+    });
+    const calls = (fetch as jest.Mock).mock.calls;
+    expect(calls[1][1].headers.Authorization).toBe('Bearer upgraded');
+    expect(auth.getTokens()).toEqual({ accessToken: 'upgraded', refreshToken: 'r2' });
+  });
+
+  it('should step up instead of refreshing on insufficient_user_authentication', async () => {
+    const auth = createAuthFlow({
+      ...config,
+      stepUp: async () => {
+        auth.setTokens({ accessToken: 'fresh', refreshToken: 'refresh' });
+      },
+    });
+    auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        jsonResponse({}, 401, {
+          'WWW-Authenticate':
+            'Bearer error="insufficient_user_authentication", acr_values="mfa", max_age=300',
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    await auth.get('/account/security');
+
+    const calls = (fetch as jest.Mock).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[1][0]).toBe('https://api.example.com/account/security');
+    expect(calls[1][1].headers.Authorization).toBe('Bearer fresh');
+  });
+
+  it('should share one step-up between concurrent requests', async () => {
+    const stepUp = jest.fn().mockResolvedValue({ accessToken: 'upgraded' });
+    const auth = createAuthFlow({ ...config, stepUp });
+    auth.setTokens({ accessToken: 'access' });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(insufficientScope())
+      .mockResolvedValueOnce(insufficientScope())
+      .mockResolvedValue(jsonResponse({}));
+
+    await Promise.all([auth.get('/payments/1'), auth.get('/payments/2')]);
+
+    expect(stepUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not step up twice for the same request', async () => {
+    const stepUp = jest.fn().mockResolvedValue({ accessToken: 'upgraded' });
+    const auth = createAuthFlow({ ...config, stepUp });
+    auth.setTokens({ accessToken: 'access' });
+
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(insufficientScope())
+      .mockResolvedValueOnce(insufficientScope());
+
+    await expect(auth.get('/payments')).rejects.toMatchObject({ status: 403 });
+    expect(stepUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose the challenge when no step-up handler is configured', async () => {
+    const auth = createAuthFlow(config);
+    auth.setTokens({ accessToken: 'access' });
+    (fetch as jest.Mock).mockResolvedValueOnce(insufficientScope());
+
+    await expect(auth.get('/payments')).rejects.toMatchObject({
+      status: 403,
+      challenges: [
+        {
+          scheme: 'Bearer',
+          params: { realm: 'api', error: 'insufficient_scope', scope: 'payments:write' },
+        },
+      ],
+    });
+  });
+});
@@ -1,4 +1,23 @@
-import { createStorage } from '../storage';
+import { createStorage, MemoryStorage, AsyncStorageCache } from '../storage';
+import { createAuthFlow } from '../index';
+import { StorageAdapter, AsyncStorageAdapter } from '../types';
+import { getStorageKeys } from '../token-store';
+
+const createAsyncAdapter = (initial: Record<string, string> = {}) => {
+  const store = new Map(Object.entries(initial));
+  const adapter: AsyncStorageAdapter = {
+    async: true,
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    remove: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    clear: jest.fn(async () => store.clear()),
+  };
+  return { adapter, store };
+};
 
 describe('Storage', () => {
   describe('createStorage', () => {
@@ -62,6 +81,161 @@ describe('Storage', () => {
     });
   });
 
+  describe('Key prefix', () => {
+    it('should only clear the keys of its instance', () => {
+      const mockStorage = window.localStorage as jest.Mocked<Storage>;
+      const data: Record<string, string> = {
+        auth_access_token: 'a',
+        auth_admin_access_token: 'b',
+        theme: 'dark',
+      };
+
+      mockStorage.removeItem.mockImplementation((key: string) => {
+        delete data[key];
+      });
+
+      createStorage('localStorage', Object.values(getStorageKeys('auth_'))).clear();
+
+      expect(Object.keys(data)).toEqual(['auth_admin_access_token', 'theme']);
+      expect(mockStorage.clear).not.toHaveBeenCalled();
+      mockStorage.removeItem.mockReset();
+    });
+
+    it('should only clear the keys of its instance in asynchronous storage', async () => {
+      const { adapter, store } = createAsyncAdapter({
+        auth_access_token: 'a',
+        auth_admin_access_token: 'b',
+      });
+      const storage = createStorage(adapter, Object.values(getStorageKeys('auth_')));
+
+      storage.clear();
+      await storage.flush?.();
+
+      expect([...store.keys()]).toEqual(['auth_admin_access_token']);
+      expect(adapter.clear).not.toHaveBeenCalled();
+    });
+
+    it('should keep tokens of differently prefixed instances apart', () => {
+      const storage: Record<string, string> = {};
+      const mockStorage = window.localStorage as jest.Mocked<Storage>;
+      mockStorage.getItem.mockImplementation((key: string) => storage[key] || null);
+      mockStorage.setItem.mockImplementation((key: string, value: string) => {
+        storage[key] = value;
+      });
+
+      const admin = createAuthFlow({
+        baseURL: 'https://admin.example.com',
+        storageKeyPrefix: 'admin_',
+      });
+      const customer = createAuthFlow({ baseURL: 'https://api.example.com' });
+
+      admin.setTokens({ accessToken: 'admin-access', refreshToken: 'admin-refresh' });
+      customer.setTokens({ accessToken: 'customer-access', refreshToken: 'customer-refresh' });
+
+      expect(admin.getTokens()?.accessToken).toBe('admin-access');
+      expect(customer.getTokens()?.accessToken).toBe('customer-access');
+      expect(storage['admin_access_token']).toBe('admin-access');
+      expect(storage['auth_access_token']).toBe('customer-access');
+    });
+  });
+
+  describe('Custom adapters', () => {
+    it('should return a custom adapter instance as is', () => {
+      const adapter = new MemoryStorage();
+      expect(createStorage(adapter)).toBe(adapter);
+    });
+
+    it('should create adapter from a factory', () => {
+      const adapter = new MemoryStorage();
+      const factory = jest.fn(() => adapter);
+
+      expect(createStorage(factory)).toBe(adapter);
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store tokens through a custom adapter', () => {
+      const store = new Map<string, string>();
+      const adapter: StorageAdapter = {
+        get: (key) => store.get(key) ?? null,
+        set: (key, value) => store.set(key, value),
+        remove: (key) => store.delete(key),
+        clear: () => store.clear(),
+      };
+
+      const auth = createAuthFlow({ baseURL: 'https://api.example.com', storage: adapter });
+      auth.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+      expect(store.get('auth_access_token')).toBe('access');
+      expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+    });
+  });
+
+  describe('Async adapters', () => {
+    it('should wrap async adapters in a cache', () => {
+      const { adapter } = createAsyncAdapter();
+      expect(createStorage(adapter)).toBeInstanceOf(AsyncStorageCache);
+    });
+
+    it('should hydrate keys and persist writes in the background', async () => {
+      const { adapter, store } = createAsyncAdapter({ a: '1', b: '2' });
+      const cache = new AsyncStorageCache(adapter);
+
+      expect(cache.get('a')).toBeNull();
+      await cache.hydrate(['a']);
+      expect(cache.get('a')).toBe('1');
+      expect(cache.get('b')).toBeNull();
+
+      cache.set('a', '3');
+      cache.remove('b');
+      expect(cache.get('a')).toBe('3');
+
+      await cache.flush();
+      expect(store.get('a')).toBe('3');
+      expect(store.has('b')).toBe(false);
+    });
+
+    it('should not let hydration overwrite newer writes', async () => {
+      const { adapter } = createAsyncAdapter({ a: 'stale' });
+      const cache = new AsyncStorageCache(adapter);
+
+      const hydration = cache.hydrate(['a']);
+      cache.set('a', 'fresh');
+      await hydration;
+
+      expect(cache.get('a')).toBe('fresh');
+    });
+
+    it('should expose hydrated tokens once auth is ready', async () => {
+      const { adapter } = createAsyncAdapter({
+        auth_access_token: 'access',
+        auth_refresh_token: 'refresh',
+      });
+      const auth = createAuthFlow({ baseURL: 'https://api.example.com', storage: adapter });
+
+      expect(auth.getTokens()).toBeNull();
+      await auth.ready;
+      expect(auth.getTokens()).toEqual({ accessToken: 'access', refreshToken: 'refresh' });
+    });
+
+    it('should persist login tokens before login resolves', async () => {
+      const { adapter, store } = createAsyncAdapter();
+      const auth = createAuthFlow({ baseURL: 'https://api.example.com', storage: adapter });
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: () => Promise.resolve({ accessToken: 'access', refreshToken: 'refresh' }),
+      });
+
+      await auth.login({ email: 'test@example.com', password: 'password' });
+
+      expect(store.get('auth_access_token')).toBe('access');
+      expect(store.get('auth_refresh_token')).toBe('refresh');
+    });
+  });
+
   describe('Memory Storage', () => {
     it('should store and retrieve values in memory', () => {
       const storage = createStorage('memory');
@@ -0,0 +1,245 @@
+import { createAuthFlow } from '../index';
+import { jsonResponse } from './helpers';
+
+describe('Cross-tab sync', () => {
+  const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+
+  describe('with localStorage', () => {
+    let storage: Record<string, string>;
+
+    beforeEach(() => {
+      const mockStorage = window.localStorage as jest.Mocked<Storage>;
+      storage = {};
+
+      mockStorage.getItem.mockImplementation((key: string) => storage[key] || null);
+      mockStorage.setItem.mockImplementation((key: string, value: string) => {
+        storage[key] = value;
+      });
+      mockStorage.removeItem.mockImplementation((key: string) => {
+        delete storage[key];
+      });
+    });
+
+    const dispatchStorageEvent = (
+      key: string,
+      oldValue: string | null,
+      newValue: string | null
+    ) => {
+      window.dispatchEvent(new StorageEvent('storage', { key, oldValue, newValue }));
+    };
+
+    it('should report a login made in another tab', () => {
+      const auth = createAuthFlow({ baseURL: 'https://api.example.com', syncTabs: true });
+      const onSync = jest.fn();
+      const onTokensChanged = jest.fn();
+      auth.on('tabSync', onSync);
+      auth.on('tokensChanged', onTokensChanged);
+
+      // Another tab writes to the shared storage
+      storage['auth_access_token'] = tokens.accessToken;
+      storage['auth_refresh_token'] = tokens.refreshToken;
+      dispatchStorageEvent('auth_access_token', null, tokens.accessToken);
+      dispatchStorageEvent('auth_refresh_token', null, tokens.refreshToken);
+
+      expect(onSync).toHaveBeenCalledTimes(1);
+      expect(onSync).toHaveBeenCalledWith({ action: 'login', tokens });
+      expect(onTokensChanged).toHaveBeenCalledWith({ tokens });
+
+      auth.destroy();
+    });
+
+    it('should report a logout made in another tab', () => {
+      const auth = createAuthFlow({ baseURL: 'https://api.example.com', syncTabs: true });
+      auth.setTokens(tokens);
+      const onSync = jest.fn();
+      auth.on('tabSync', onSync);
+
+      delete storage['auth_access_token'];
+      delete storage['auth_refresh_token'];
+      dispatchStorageEvent('auth_access_token', tokens.accessToken, null);
+
+      expect(onSync).toHaveBeenCalledWith({ action: 'logout', tokens: null });
+      expect(auth.getTokens()).toBeNull();
+
+      auth.destroy();
+    });
+
+    it('should ignore unrelated storage keys', () => {
+      const auth = createAuthFlow({ baseURL: 'https://api.example.com', syncTabs: true });
+      const onSync = jest.fn();
+      auth.on('tabSync', onSync);
+
+      dispatchStorageEvent('theme', null, 'dark');
+
+      expect(onSync).not.toHaveBeenCalled();
+      auth.destroy();
+    });
+
+    it('should ignore storage events for a session kept elsewhere', async () => {
+      const auth = createAuthFlow({ baseURL: 'https://api.example.com', syncTabs: true });
+      (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(tokens));
+      await auth.login({ email: 'test@example.com' }, { persist: 'memory' });
+      const onSync = jest.fn();
+      auth.on('tabSync', onSync);
+
+      dispatchStorageEvent('auth_access_token', null, 'other-access');
+
+      expect(onSync).not.toHaveBeenCalled();
+      expect(auth.getTokens()).toEqual(tokens);
+      auth.destroy();
+    });
+  });
+
+  describe('with memory storage', () => {
+    const channels: MockBroadcastChannel[] = [];
+
+    class MockBroadcastChannel {
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+
+      constructor(readonly name: string) {
+        channels.push(this);
+      }
+
+      postMessage(data: unknown): void {
+        channels
+          .filter((channel) => channel !== this && channel.name === this.name)
+          .forEach((channel) => channel.onmessage?.({ data }));
+      }
+
+      close(): void {
+        channels.splice(channels.indexOf(this), 1);
+      }
+    }
+
+    beforeEach(() => {
+      (global as { BroadcastChannel?: unknown }).BroadcastChannel = MockBroadcastChannel;
+    });
+
+    afterEach(() => {
+      delete (global as { BroadcastChannel?: unknown }).BroadcastChannel;
+    });
+
+    it('should share login, refresh and logout between tabs', async () => {
+      const config = {
+        baseURL: 'https://api.example.com',
+        storage: 'memory' as const,
+        syncTabs: true,
+      };
+      const tabA = createAuthFlow(config);
+      const tabB = createAuthFlow(config);
+      const onSync = jest.fn();
+      tabB.on('tabSync', onSync);
+
+      tabA.setTokens(tokens);
+      expect(tabB.getTokens()).toEqual(tokens);
+      expect(onSync).toHaveBeenLastCalledWith({ action: 'login', tokens });
+
+      const refreshed = { accessToken: 'access-2', refreshToken: 'refresh-2' };
+      tabA.setTokens(refreshed);
+      expect(tabB.getTokens()).toEqual(refreshed);
+      expect(onSync).toHaveBeenLastCalledWith({ action: 'refresh', tokens: refreshed });
+
+      tabB.setTokens(tokens);
+      expect(tabA.getTokens()).toEqual(tokens);
+
+      (fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+      await tabA.logout();
+      expect(tabB.getTokens()).toBeNull();
+      expect(onSync).toHaveBeenLastCalledWith({ action: 'logout', tokens: null });
+
+      tabA.destroy();
+      tabB.destroy();
+      expect(channels).toHaveLength(0);
+    });
+
+    it('should sync a session persisted to localStorage', async () => {
+      const storage: Record<string, string> = {};
+      const mockStorage = window.localStorage as jest.Mocked<Storage>;
+      mockStorage.getItem.mockImplementation((key: string) => storage[key] ?? null);
+      mockStorage.setItem.mockImplementation((key: string, value: string) => {
+        storage[key] = value;
+      });
+      mockStorage.removeItem.mockImplementation((key: string) => {
+        delete storage[key];
+      });
+
+      const config = {
+        baseURL: 'https://api.example.com',
+        storage: 'memory' as const,
+        syncTabs: true,
+      };
+      const tabA = createAuthFlow(config);
+      const tabB = createAuthFlow(config);
+      const onSync = jest.fn();
+      tabB.on('tabSync', onSync);
+
+      (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(tokens));
+      await tabA.login({ email: 'test@example.com' }, { persist: 'local' });
+
+      expect(storage['auth_access_token']).toBe(tokens.accessToken);
+      expect(tabB.getTokens()).toEqual(tokens);
+      expect(onSync).toHaveBeenCalledTimes(1);
+      expect(onSync).toHaveBeenCalledWith({ action: 'login', tokens });
+
+      tabA.destroy();
+      tabB.destroy();
+    });
+
+    describe('into tabs configured with localStorage', () => {
+      const config = { baseURL: 'https://api.example.com', syncTabs: true };
+      let storage: Record<string, string>;
+
+      beforeEach(() => {
+        // localStorage and sessionStorage share one mock in tests
+        const mockStorage = window.localStorage as jest.Mocked<Storage>;
+        storage = {};
+        mockStorage.getItem.mockImplementation((key: string) => storage[key] ?? null);
+        mockStorage.setItem.mockImplementation((key: string, value: string) => {
+          storage[key] = value;
+        });
+        mockStorage.removeItem.mockImplementation((key: string) => {
+          delete storage[key];
+        });
+      });
+
+      it('should keep a memory session out of localStorage', async () => {
+        const tabA = createAuthFlow(config);
+        const tabB = createAuthFlow(config);
+
+        (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(tokens));
+        await tabA.login({ email: 'test@example.com' }, { persist: 'memory' });
+
+        expect(tabB.getTokens()).toEqual(tokens);
+        expect(Object.keys(storage)).toEqual([]);
+
+        const refreshed = { accessToken: 'access-2', refreshToken: 'refresh-2' };
+        tabA.setTokens(refreshed);
+        expect(tabB.getTokens()).toEqual(refreshed);
+        expect(Object.keys(storage)).toEqual([]);
+
+        tabA.destroy();
+        tabB.destroy();
+      });
+
+      it('should keep a sessionStorage session out of localStorage', async () => {
+        const tabA = createAuthFlow(config);
+        const tabB = createAuthFlow(config);
+        const onSync = jest.fn();
+        tabB.on('tabSync', onSync);
+
+        (fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(tokens));
+        await tabA.login({ email: 'test@example.com' }, { persist: 'session' });
+        expect(tabB.getTokens()).toEqual(tokens);
+
+        // A session in localStorage would follow storage events
+        window.dispatchEvent(
+          new StorageEvent('storage', { key: 'auth_access_token', newValue: 'other-access' })
+        );
+
+        expect(onSync).toHaveBeenCalledTimes(1);
+        tabA.destroy();
+        tabB.destroy();
+      });
+    });
+  });
+});
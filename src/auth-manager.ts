@@ -4,9 +4,20 @@ import {
   HttpResponse,
   RequestConfig,
   LoginCredentials,
+  LoginOptions,
+  LoginResult,
+  LoginChallenge,
+  ChallengeResponse,
+  AuthError,
+  StepUpRequirement,
 } from './types';
 import { TokenStore } from './token-store';
 import { HttpClient } from './http-client';
+import { AuthEventEmitter } from './events';
+import { RefreshLock } from './refresh-lock';
+import { OAuthClient } from './oauth';
+import { SessionPolicy } from './session-policy';
+import { toTokenMetadata } from './utils/token-metadata';
 
 /**
  * Manages authentication flow and token refresh
@@ -15,24 +26,119 @@ export class AuthManager {
   private readonly config: NormalizedConfig;
   private readonly tokenStore: TokenStore;
   private readonly httpClient: HttpClient;
+  private readonly events: AuthEventEmitter;
+  private readonly refreshLock: RefreshLock | null;
+  private readonly oauthClient: OAuthClient | null;
+  private readonly sessionPolicy: SessionPolicy | null;
   private refreshPromise: Promise<void> | null = null;
+  private readonly stepUps = new Map<string, Promise<void>>();
 
-  constructor(config: NormalizedConfig, tokenStore: TokenStore, httpClient: HttpClient) {
+  constructor(
+    config: NormalizedConfig,
+    tokenStore: TokenStore,
+    httpClient: HttpClient,
+    events: AuthEventEmitter,
+    refreshLock: RefreshLock | null = null,
+    oauthClient: OAuthClient | null = null,
+    sessionPolicy: SessionPolicy | null = null
+  ) {
     this.config = config;
     this.tokenStore = tokenStore;
     this.httpClient = httpClient;
+    this.events = events;
+    this.refreshLock = refreshLock;
+    this.oauthClient = oauthClient;
+    this.sessionPolicy = sessionPolicy;
   }
 
   /**
    * Handle user login
    */
-  async login<T = unknown>(credentials: LoginCredentials): Promise<T> {
+  async login<T = unknown>(
+    credentials: LoginCredentials,
+    options: LoginOptions = {}
+  ): Promise<LoginResult<T>> {
+    this.assertPersistable(options);
     const response = await this.httpClient.post<T>(this.config.endpoints.login, credentials);
+    return this.completeLogin(response, options);
+  }
+
+  /**
+   * Answer a login challenge, or ask for a new code when no code is given
+   */
+  async completeChallenge<T = unknown>(
+    challengeId: string,
+    answer: ChallengeResponse,
+    options: LoginOptions = {}
+  ): Promise<LoginResult<T>> {
+    this.assertPersistable(options);
+    const response = await this.httpClient.post<T>(this.config.endpoints.mfa, {
+      challengeId,
+      ...(answer.method && { method: answer.method }),
+      ...(answer.code !== undefined && { code: answer.code }),
+    });
 
-    const tokens = this.extractTokens(response.data);
-    this.tokenStore.setTokens(tokens);
+    // A resent code keeps the challenge open
+    if (answer.code === undefined) {
+      return {
+        status: 'challenge',
+        challenge: toLoginChallenge(response.data) ?? {
+          challengeId,
+          methods: [answer.method],
+          data: response.data,
+        },
+      };
+    }
 
-    return response.data;
+    return this.completeLogin(response, options);
+  }
+
+  /**
+   * Store the session from a login response unless it announces a challenge
+   */
+  private async completeLogin<T>(
+    response: HttpResponse<T>,
+    options: LoginOptions
+  ): Promise<LoginResult<T>> {
+    const challenge = toLoginChallenge(response.data);
+    if (challenge) {
+      return { status: 'challenge', challenge };
+    }
+
+    // In cookie mode the server keeps the tokens in HttpOnly cookies
+    let tokens: TokenPair | null = null;
+    if (this.config.mode === 'cookie') {
+      this.usePersistence(options);
+      this.tokenStore.setSessionActive(true);
+    } else {
+      tokens = this.extractTokens(response);
+      this.usePersistence(options);
+      this.tokenStore.setTokens(tokens);
+    }
+    await this.tokenStore.flush();
+    this.events.emit('login', { tokens, data: response.data });
+
+    return { status: 'authenticated', data: response.data };
+  }
+
+  /**
+   * persist switches between the built-in browser storages, it would bypass
+   * custom adapters and cookies and store their tokens in plain browser storage
+   */
+  private assertPersistable(options: LoginOptions): void {
+    const { storage } = this.config;
+    if (options.persist && (typeof storage !== 'string' || storage === 'cookie')) {
+      throw new Error('persist requires the localStorage, sessionStorage or memory storage');
+    }
+  }
+
+  /**
+   * Move the new session to the backend chosen at login
+   */
+  private usePersistence(options: LoginOptions): void {
+    if (options.persist) {
+      this.tokenStore.setPersistence(options.persist);
+    }
   }
 
   /**
@@ -46,6 +152,42 @@ export class AuthManager {
     }
 
     this.tokenStore.clearTokens();
+    await this.tokenStore.flush();
+    this.events.emit('logout', undefined);
+  }
+
+  /**
+   * End the session when the session policy times it out
+   * Tokens are cleared at once, the logout endpoint is called afterwards
+   */
+  async timeoutSession(reason: string): Promise<void> {
+    const request = this.authorize('POST', this.config.endpoints.logout, {});
+    this.expireSession(null, reason);
+
+    try {
+      await this.httpClient.request('POST', request.url, undefined, request.config);
+    } catch {
+      // The session is already over on this side
+    }
+    await this.tokenStore.flush();
+  }
+
+  /**
+   * Ask the server whether the cookie session is still valid
+   */
+  async checkSession(): Promise<boolean> {
+    try {
+      await this.authenticatedRequest('GET', this.config.endpoints.session);
+      this.tokenStore.setSessionActive(true);
+      await this.tokenStore.flush();
+      return true;
+    } catch (error) {
+      // A failed refresh has already cleared the session
+      if (!this.tokenStore.hasActiveSession()) {
+        return false;
+      }
+      throw error;
+    }
   }
 
   /**
@@ -57,20 +199,38 @@ export class AuthManager {
     data?: unknown,
     config: RequestConfig = {}
   ): Promise<HttpResponse<T>> {
+    // Tokens may still be loading from asynchronous storage
+    await this.tokenStore.hydrate();
+
+    // Requests count as activity but cannot revive a timed out session
+    if (this.sessionPolicy && !this.sessionPolicy.recordActivity()) {
+      throw new Error('Session expired');
+    }
+
     // Add auth header if we have a token
     const accessToken = this.tokenStore.getAccessToken();
-    if (accessToken) {
-      config.headers = {
-        ...config.headers,
-        Authorization: `Bearer ${accessToken}`,
-      };
-    }
+    const request = this.authorize(method, url, config);
 
     try {
-      return await this.httpClient.request<T>(method, url, data, config);
+      return await this.httpClient.request<T>(method, request.url, data, request.config);
     } catch (error: any) {
+      // More scope or a fresher login is needed, a refresh would not help
+      const requirement =
+        this.config.stepUp && !config.isStepUpRetry ? getStepUpRequirement(error) : null;
+      if (requirement) {
+        return this.retryAfterStepUp<T>(method, url, data, config, requirement);
+      }
+
       // Handle 401 errors with token refresh
       if (error.status === 401 && !config.isRetry) {
+        // Access-token-only sessions cannot be renewed
+        if (
+          this.config.mode !== 'cookie' &&
+          !this.usesRefreshCookie() &&
+          !this.tokenStore.getRefreshToken()
+        ) {
+          throw accessToken ? this.expireSession(error, 'No refresh token available') : error;
+        }
         return this.handleAuthError<T>(method, url, data, config);
       }
       throw error;
@@ -86,41 +246,146 @@ export class AuthManager {
     data?: unknown,
     config: RequestConfig = {}
   ): Promise<HttpResponse<T>> {
-    // If already refreshing, queue the request
-    if (this.httpClient.isCurrentlyRefreshing()) {
-      return this.httpClient.queueRequest<T>(method, url, data, config);
-    }
-
-    // Start refresh process
-    if (!this.refreshPromise) {
-      this.refreshPromise = this.refreshTokens();
-    }
-
     try {
-      await this.refreshPromise;
+      // Requests failing during a refresh share it
+      await this.refresh();
+
+      // Cookies were renewed by the server, retry as is
+      if (this.config.mode === 'cookie') {
+        return this.httpClient.request<T>(method, url, data, { ...config, isRetry: true });
+      }
 
       // Retry request with new token (create new config to avoid mutation)
-      const newAccessToken = this.tokenStore.getAccessToken();
-      if (newAccessToken) {
-        const retryConfig: RequestConfig = {
-          ...config,
-          headers: {
-            ...config.headers,
-            Authorization: `Bearer ${newAccessToken}`,
-          },
-          isRetry: true,
-        };
-        return this.httpClient.request<T>(method, url, data, retryConfig);
+      if (this.tokenStore.getAccessToken()) {
+        const retry = this.authorize(method, url, { ...config, isRetry: true });
+        return this.httpClient.request<T>(method, retry.url, data, retry.config);
       }
 
       throw new Error('No access token after refresh');
     } catch (refreshError) {
       // Refresh failed, clear tokens and throw error
-      this.tokenStore.clearTokens();
-      throw refreshError;
-    } finally {
-      this.refreshPromise = null;
+      throw this.expireSession(refreshError, 'Token refresh failed');
+    }
+  }
+
+  /**
+   * Run the step-up handler, then retry the request with the upgraded token
+   * Requests rejected for the same requirement share one step-up
+   */
+  private async retryAfterStepUp<T>(
+    method: string,
+    url: string,
+    data: unknown,
+    config: RequestConfig,
+    requirement: Omit<StepUpRequirement, 'method' | 'url'>
+  ): Promise<HttpResponse<T>> {
+    const key = JSON.stringify([
+      requirement.error,
+      requirement.scope,
+      requirement.acrValues,
+      requirement.maxAge,
+    ]);
+
+    let stepUp = this.stepUps.get(key);
+    if (!stepUp) {
+      stepUp = this.stepUp({ ...requirement, method, url }).finally(() => {
+        this.stepUps.delete(key);
+      });
+      this.stepUps.set(key, stepUp);
+    }
+    await stepUp;
+
+    const retry = this.authorize(method, url, { ...config, isStepUpRetry: true });
+    return this.httpClient.request<T>(method, retry.url, data, retry.config);
+  }
+
+  /**
+   * Let the application re-authenticate and store the tokens it returns
+   */
+  private async stepUp(requirement: StepUpRequirement): Promise<void> {
+    const tokens = await this.config.stepUp?.(requirement);
+    if (tokens) {
+      this.tokenStore.setTokens(tokens);
+      await this.tokenStore.flush();
+    }
+  }
+
+  /**
+   * Attach the current access token as configured by authHeader
+   */
+  private authorize(
+    method: string,
+    url: string,
+    config: RequestConfig
+  ): { url: string; config: RequestConfig } {
+    const accessToken = this.tokenStore.getAccessToken();
+    if (!accessToken) {
+      return { url, config };
+    }
+
+    // DPoP proofs for resource requests carry a hash of the access token
+    if (this.config.dpop) {
+      config = { ...config, boundAccessToken: accessToken };
+    }
+
+    const option = config.authHeader ?? this.config.authHeader;
+    if (typeof option === 'function') {
+      return {
+        url,
+        config: {
+          ...config,
+          headers: { ...config.headers, ...option(accessToken, { method, url }) },
+        },
+      };
+    }
+
+    if (option.queryParam) {
+      const separator = url.includes('?') ? '&' : '?';
+      const param = `${encodeURIComponent(option.queryParam)}=${encodeURIComponent(accessToken)}`;
+      return { url: `${url}${separator}${param}`, config };
     }
+
+    const scheme = option.scheme ?? (this.config.dpop ? 'DPoP' : 'Bearer');
+    return {
+      url,
+      config: {
+        ...config,
+        headers: {
+          ...config.headers,
+          [option.name ?? 'Authorization']: scheme ? `${scheme} ${accessToken}` : accessToken,
+        },
+      },
+    };
+  }
+
+  /**
+   * Clear tokens and announce the end of the session, returns the error to throw
+   */
+  private expireSession(error: unknown, reason: string): unknown {
+    this.tokenStore.clearTokens();
+    this.events.emit('sessionExpired', { reason });
+    return error;
+  }
+
+  /**
+   * Refresh tokens, sharing a single in-flight refresh between callers
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refreshTokens().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Whether the refresh token is kept in an HttpOnly cookie the client cannot read
+   */
+  usesRefreshCookie(): boolean {
+    const options = this.config.refreshRequest;
+    return typeof options !== 'function' && options.tokenPlacement === 'cookie';
   }
 
   /**
@@ -130,39 +395,246 @@ export class AuthManager {
     this.httpClient.setRefreshing(true);
 
     try {
+      await this.tokenStore.hydrate();
+
+      const tokens =
+        this.config.mode === 'cookie'
+          ? await this.refreshCookieSession()
+          : await this.refreshTokenPair();
+
+      this.events.emit('tokenRefreshed', { tokens });
+    } catch (error) {
+      this.events.emit('refreshFailed', { error });
+      throw error;
+    } finally {
+      this.httpClient.setRefreshing(false);
+    }
+  }
+
+  /**
+   * Exchange the stored refresh token for a new token pair
+   */
+  private async refreshTokenPair(): Promise<TokenPair> {
+    const staleRefreshToken = this.tokenStore.getRefreshToken();
+
+    return this.withRefreshLock(async () => {
+      if (this.refreshLock) {
+        await this.tokenStore.reload();
+      }
+
+      // A refresh token in an HttpOnly cookie is sent by the browser
       const refreshToken = this.tokenStore.getRefreshToken();
-      if (!refreshToken) {
+      if (!refreshToken && !this.usesRefreshCookie()) {
         throw new Error('No refresh token available');
       }
 
-      if (this.tokenStore.isTokenExpired(refreshToken)) {
+      // Another tab refreshed while we were waiting for the lock
+      const storedTokens = this.tokenStore.getTokens();
+      if (staleRefreshToken && refreshToken !== staleRefreshToken && storedTokens) {
+        return storedTokens;
+      }
+
+      if (
+        refreshToken &&
+        this.tokenStore.isTokenExpired(refreshToken, storedTokens?.refreshExpiresAt)
+      ) {
         throw new Error('Refresh token expired');
       }
 
-      const response = await this.httpClient.post(this.config.endpoints.refresh, {
-        refreshToken,
-      });
+      let refreshedTokens: TokenPair;
+      if (!refreshToken) {
+        refreshedTokens = await this.requestRefresh(null);
+      } else if (this.oauthClient) {
+        refreshedTokens = await this.oauthClient.refresh(refreshToken);
+      } else {
+        refreshedTokens = keepRefreshToken(
+          await this.requestRefresh(refreshToken),
+          refreshToken,
+          storedTokens
+        );
+      }
+      this.tokenStore.setTokens(refreshedTokens);
+      await this.tokenStore.flush();
+      return refreshedTokens;
+    });
+  }
 
-      const tokens = this.extractTokens(response.data);
-      this.tokenStore.setTokens(tokens);
-    } finally {
-      this.httpClient.setRefreshing(false);
+  /**
+   * Call the refresh endpoint as described by the refreshRequest config
+   */
+  private async requestRefresh(refreshToken: string | null): Promise<TokenPair> {
+    const options = this.config.refreshRequest;
+    if (typeof options === 'function') {
+      if (!refreshToken) {
+        throw new Error('No refresh token available');
+      }
+      return options(refreshToken);
+    }
+
+    const body: Record<string, string> = { ...options.params };
+    const headers: Record<string, string> = {};
+
+    if (refreshToken && options.tokenPlacement === 'body') {
+      body[options.tokenField] = refreshToken;
+    } else if (refreshToken && options.tokenPlacement === 'header') {
+      headers[options.headerName] = options.headerScheme
+        ? `${options.headerScheme} ${refreshToken}`
+        : refreshToken;
+    }
+
+    // Only POST, PUT and PATCH carry a body, other methods send it as a query string
+    const hasBody = ['POST', 'PUT', 'PATCH'].includes(options.method.toUpperCase());
+    const payload = options.encoding === 'form' ? new URLSearchParams(body) : body;
+    let url = this.config.endpoints.refresh;
+    if (!hasBody && Object.keys(body).length > 0) {
+      const separator = url.includes('?') ? '&' : '?';
+      url = `${url}${separator}${new URLSearchParams(body)}`;
     }
+
+    const response = await this.httpClient.request(
+      options.method,
+      url,
+      hasBody ? payload : undefined,
+      { headers, withCredentials: options.tokenPlacement === 'cookie' }
+    );
+
+    return this.extractTokens(response);
+  }
+
+  /**
+   * Renew a cookie session, the refresh cookie is sent by the browser
+   */
+  private async refreshCookieSession(): Promise<null> {
+    await this.withRefreshLock(() => this.httpClient.post(this.config.endpoints.refresh));
+    this.tokenStore.setSessionActive(true);
+    await this.tokenStore.flush();
+    return null;
+  }
+
+  /**
+   * Run task under the cross-tab refresh lock when configured
+   */
+  private withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+    return this.refreshLock ? this.refreshLock.run(task) : task();
   }
 
   /**
    * Extract tokens from API response
    */
-  private extractTokens(data: any): TokenPair {
-    const accessToken = data[this.config.tokenFields.access];
-    const refreshToken = data[this.config.tokenFields.refresh];
+  private extractTokens(response: HttpResponse): TokenPair {
+    if (this.config.extractTokens) {
+      return this.config.extractTokens(response);
+    }
+
+    const fields = this.config.tokenFields;
+    const accessToken = getField(response.data, fields.access);
+    const refreshToken = getField(response.data, fields.refresh);
 
-    if (!accessToken || !refreshToken) {
-      throw new Error(
-        `Tokens not found in response. Expected fields: ${this.config.tokenFields.access}, ${this.config.tokenFields.refresh}`
-      );
+    if (typeof accessToken !== 'string' || !accessToken) {
+      throw new Error(`Tokens not found in response. Expected field: ${fields.access}`);
     }
 
-    return { accessToken, refreshToken };
+    return {
+      accessToken,
+      ...(typeof refreshToken === 'string' && refreshToken && { refreshToken }),
+      ...toTokenMetadata(
+        {
+          expiresIn: getField(response.data, fields.expiresIn),
+          refreshExpiresIn: getField(response.data, fields.refreshExpiresIn),
+          tokenType: getField(response.data, fields.tokenType),
+          scope: getField(response.data, fields.scope),
+        },
+        this.tokenStore.clock.now()
+      ),
+    };
   }
 }
+
+/**
+ * Keep the refresh token and its expiry when the backend does not rotate it
+ */
+function keepRefreshToken(
+  tokens: TokenPair,
+  refreshToken: string,
+  previous: TokenPair | null
+): TokenPair {
+  const keepRefreshExpiry =
+    !tokens.refreshExpiresAt && (tokens.refreshToken ?? refreshToken) === refreshToken;
+
+  return {
+    ...tokens,
+    refreshToken: tokens.refreshToken ?? refreshToken,
+    ...(keepRefreshExpiry &&
+      previous?.refreshExpiresAt && { refreshExpiresAt: previous.refreshExpiresAt }),
+  };
+}
+
+/**
+ * Read a step-up requirement from the WWW-Authenticate challenges of a failed request
+ */
+function getStepUpRequirement(error: AuthError): Omit<StepUpRequirement, 'method' | 'url'> | null {
+  const expectedError =
+    error.status === 403
+      ? 'insufficient_scope'
+      : error.status === 401
+        ? 'insufficient_user_authentication'
+        : null;
+  if (!expectedError) {
+    return null;
+  }
+
+  const params = error.challenges?.find(
+    (challenge) => challenge.params.error === expectedError
+  )?.params;
+  if (!params) {
+    return null;
+  }
+
+  const maxAge = Number(params.max_age);
+  return {
+    error: expectedError,
+    ...(params.scope && { scope: params.scope }),
+    ...(params.acr_values && { acrValues: params.acr_values }),
+    ...(params.max_age && Number.isFinite(maxAge) && { maxAge }),
+  };
+}
+
+/**
+ * Read an MFA challenge ({ mfaRequired: true, challengeId, methods }) from a response
+ */
+function toLoginChallenge(data: unknown): LoginChallenge | null {
+  const challenge = data as
+    | { mfaRequired?: unknown; challengeId?: unknown; methods?: unknown }
+    | null
+    | undefined;
+  if (challenge?.mfaRequired !== true || typeof challenge.challengeId !== 'string') {
+    return null;
+  }
+
+  return {
+    challengeId: challenge.challengeId,
+    methods: Array.isArray(challenge.methods) ? challenge.methods : [],
+    data,
+  };
+}
+
+/**
+ * Read a field by name or dot path
+ */
+function getField(data: unknown, path: string): unknown {
+  if (data == null) {
+    return undefined;
+  }
+
+  // Field names containing dots are matched as-is first
+  if (path in Object(data)) {
+    return (data as Record<string, unknown>)[path];
+  }
+
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) => (value == null ? undefined : (value as Record<string, unknown>)[key]),
+      data
+    );
+}
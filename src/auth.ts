@@ -2,15 +2,34 @@ import {
   AuthFlowConfig,
   NormalizedConfig,
   LoginCredentials,
+  LoginOptions,
+  LoginResult,
+  ChallengeResponse,
   TokenPair,
   HttpResponse,
   RequestConfig,
   AuthValidator,
+  AuthEventType,
+  AuthEventHandler,
+  LoginWithRedirectOptions,
+  LogoutOptions,
+  DeviceCodeOptions,
+  DeviceCodeLogin,
+  UserClaims,
 } from './types';
-import { createStorage } from './storage';
-import { TokenStore } from './token-store';
+import { BrowserStorage, createStorage } from './storage';
+import { TokenStore, getStorageKeys } from './token-store';
 import { HttpClient } from './http-client';
 import { AuthManager } from './auth-manager';
+import { AuthEventEmitter } from './events';
+import { RefreshScheduler } from './refresh-scheduler';
+import { TabSync } from './tab-sync';
+import { SessionPolicy } from './session-policy';
+import { RefreshLock } from './refresh-lock';
+import { OAuthClient } from './oauth';
+import { DPoP } from './dpop';
+import { Clock } from './clock';
+import { extractJWTClaims } from './utils/jwt';
 
 /**
  * Main Auth class focused on authentication concerns only
@@ -20,28 +39,230 @@ export class Auth {
   private readonly tokenStore: TokenStore;
   private readonly httpClient: HttpClient;
   private readonly authManager: AuthManager;
+  private readonly events: AuthEventEmitter;
+  private readonly refreshScheduler: RefreshScheduler | null = null;
+  private readonly tabSync: TabSync | null = null;
+  private readonly sessionPolicy: SessionPolicy | null = null;
+  private readonly oauthClient: OAuthClient | null = null;
+
+  /**
+   * Resolves once tokens have been loaded from storage
+   * Synchronous methods read from this in-memory state
+   */
+  readonly ready: Promise<void>;
 
   constructor(config: AuthFlowConfig) {
     this.config = this.normalizeConfig(config);
 
-    const storage = createStorage(this.config.storage);
-    this.tokenStore = new TokenStore(storage);
-    this.httpClient = new HttpClient(this.config);
-    this.authManager = new AuthManager(this.config, this.tokenStore, this.httpClient);
+    const storage = createStorage(
+      this.config.storage,
+      Object.values(getStorageKeys(this.config.storageKeyPrefix))
+    );
+    this.events = new AuthEventEmitter();
+    const clock = new Clock(this.config.clockSkewSeconds);
+    this.tokenStore = new TokenStore(storage, this.events, this.config.storageKeyPrefix, clock);
+    this.ready = this.tokenStore.hydrate();
+    this.httpClient = new HttpClient(
+      this.config,
+      this.config.dpop ? new DPoP(this.config.dpop, clock) : null,
+      this.config.syncServerTime ? clock : null
+    );
+
+    if (this.config.oauth) {
+      this.oauthClient = new OAuthClient(
+        this.config,
+        this.config.oauth,
+        this.tokenStore,
+        this.httpClient,
+        this.events
+      );
+
+      // Tokens that could not be revoked at logout are retried on startup
+      const oauthClient = this.oauthClient;
+      this.ready
+        .then(() => oauthClient.retryPendingRevocations())
+        .catch(() => {
+          // Kept for the next startup
+        });
+    }
+
+    if (this.config.sessionPolicy) {
+      this.sessionPolicy = new SessionPolicy(
+        this.config.sessionPolicy,
+        this.tokenStore,
+        this.events,
+        (reason) => this.authManager.timeoutSession(reason)
+      );
+    }
+
+    this.authManager = new AuthManager(
+      this.config,
+      this.tokenStore,
+      this.httpClient,
+      this.events,
+      this.config.refreshLock
+        ? new RefreshLock(
+            // Only localStorage is shared between tabs, whatever holds the tokens
+            new BrowserStorage('localStorage'),
+            this.config.timeout + 1000,
+            this.config.storageKeyPrefix
+          )
+        : null,
+      this.oauthClient,
+      this.sessionPolicy
+    );
+    this.sessionPolicy?.start();
+
+    if (this.config.autoRefresh) {
+      this.refreshScheduler = new RefreshScheduler(
+        this.config.autoRefresh.leewaySeconds,
+        this.tokenStore,
+        this.events,
+        () => this.authManager.refresh()
+      );
+      this.refreshScheduler.start();
+    }
+
+    if (this.config.syncTabs) {
+      this.tabSync = new TabSync(
+        this.config.storage === 'localStorage',
+        this.tokenStore,
+        this.events,
+        this.config.storageKeyPrefix
+      );
+      this.tabSync.start();
+    }
+  }
+
+  /**
+   * Subscribe to authentication lifecycle events
+   * Returns a function that removes the handler
+   */
+  on<K extends AuthEventType>(event: K, handler: AuthEventHandler<K>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from authentication lifecycle events
+   */
+  off<K extends AuthEventType>(event: K, handler: AuthEventHandler<K>): void {
+    this.events.off(event, handler);
   }
 
   /**
    * Login with credentials
+   * Resolves with a challenge when the server asks for a second factor
+   * options.persist picks the storage backend for this session
+   */
+  async login<T = unknown>(
+    credentials: LoginCredentials,
+    options?: LoginOptions
+  ): Promise<LoginResult<T>> {
+    return this.authManager.login<T>(credentials, options);
+  }
+
+  /**
+   * Answer a login challenge with a code, or request a new code for a method
+   * Pass the options given to login() so the session is kept where chosen
+   */
+  async completeChallenge<T = unknown>(
+    challengeId: string,
+    response: ChallengeResponse,
+    options?: LoginOptions
+  ): Promise<LoginResult<T>> {
+    return this.authManager.completeChallenge<T>(challengeId, response, options);
+  }
+
+  /**
+   * Build the OAuth authorize URL (PKCE) without navigating
+   */
+  async createAuthorizeUrl(options?: LoginWithRedirectOptions): Promise<string> {
+    return this.requireOAuth().createAuthorizeUrl(options);
+  }
+
+  /**
+   * Start the OAuth Authorization Code flow by redirecting to the provider
+   */
+  async loginWithRedirect(options?: LoginWithRedirectOptions): Promise<void> {
+    const url = await this.createAuthorizeUrl(options);
+    window.location.assign(url);
+  }
+
+  /**
+   * Complete the OAuth flow on the redirect URI and store the tokens
+   */
+  async handleRedirectCallback<T = unknown>(url: string = window.location.href): Promise<T> {
+    return this.requireOAuth().handleRedirectCallback<T>(url);
+  }
+
+  /**
+   * Start the Device Authorization Grant for clients without a browser
+   * Show userCode and verificationUri to the user, then await complete()
+   */
+  async loginWithDeviceCode<T = unknown>(options?: DeviceCodeOptions): Promise<DeviceCodeLogin<T>> {
+    return this.requireOAuth().startDeviceAuthorization<T>(options);
+  }
+
+  /**
+   * Decoded claims of the stored OpenID Connect ID token
    */
-  async login<T = unknown>(credentials: LoginCredentials): Promise<T> {
-    return this.authManager.login<T>(credentials);
+  getIdTokenClaims(): UserClaims | null {
+    const idToken = this.tokenStore.getIdToken();
+    return idToken ? extractJWTClaims(idToken) : null;
+  }
+
+  /**
+   * Fetch the OpenID Connect userinfo for the current access token
+   */
+  async fetchUserInfo<T = UserClaims>(): Promise<T> {
+    const metadata = await this.requireOAuth().getMetadata();
+    if (!metadata.userinfo_endpoint) {
+      throw new Error('Userinfo endpoint not available');
+    }
+
+    // The provider expects a Bearer token whatever the API uses
+    const response = await this.authManager.authenticatedRequest<T>(
+      'GET',
+      metadata.userinfo_endpoint,
+      undefined,
+      { authHeader: {} }
+    );
+    return response.data;
   }
 
   /**
    * Logout and clear tokens
+   * Optionally revokes the tokens and ends the provider session
+   */
+  async logout(options: LogoutOptions = {}): Promise<void> {
+    const oauthClient = options.revokeTokens || options.endSession ? this.requireOAuth() : null;
+
+    await this.ready;
+    const tokens = this.tokenStore.getTokens();
+
+    await this.authManager.logout();
+
+    if (oauthClient && options.revokeTokens && tokens) {
+      await oauthClient.revokeTokens(tokens);
+    }
+
+    if (oauthClient && options.endSession) {
+      const url = await oauthClient.createEndSessionUrl(
+        tokens?.idToken,
+        options.postLogoutRedirectUri
+      );
+      window.location.assign(url);
+    }
+  }
+
+  /**
+   * Stop background work and remove all event handlers
    */
-  async logout(): Promise<void> {
-    return this.authManager.logout();
+  destroy(): void {
+    this.refreshScheduler?.stop();
+    this.sessionPolicy?.stop();
+    this.tabSync?.stop();
+    this.events.clear();
   }
 
   /**
@@ -49,6 +270,9 @@ export class Auth {
    * Supports both custom validation and parameter override
    */
   isAuthenticated(customValidator?: AuthValidator): boolean {
+    // A timed out session is ended here in case its timer has not fired yet
+    this.sessionPolicy?.check();
+
     const tokens = this.tokenStore.getTokens();
 
     // Use parameter validator if provided (highest priority)
@@ -61,8 +285,29 @@ export class Auth {
       return this.config.validateAuth(tokens);
     }
 
+    // Cookie mode: tokens live in HttpOnly cookies, rely on the session flag
+    if (this.config.mode === 'cookie') {
+      return this.tokenStore.hasActiveSession();
+    }
+
     // Default validation: check if tokens exist and are valid (fallback)
-    return this.tokenStore.hasValidTokens();
+    return this.tokenStore.hasValidTokens(this.authManager.usesRefreshCookie());
+  }
+
+  /**
+   * Restart the idle timeout, for example from a "Stay signed in" prompt
+   * Does nothing without a sessionPolicy or once the session has ended
+   */
+  extendSession(): void {
+    this.sessionPolicy?.extend();
+  }
+
+  /**
+   * Check the session against the server (cookie mode)
+   * Updates the flag read by isAuthenticated()
+   */
+  async checkSession(): Promise<boolean> {
+    return this.authManager.checkSession();
   }
 
   /**
@@ -126,24 +371,80 @@ export class Auth {
     return this.authManager.authenticatedRequest<T>('DELETE', url, undefined, config);
   }
 
+  private requireOAuth(): OAuthClient {
+    if (!this.oauthClient) {
+      throw new Error('OAuth is not configured. Provide the oauth option to use this method');
+    }
+    return this.oauthClient;
+  }
+
   /**
    * Normalize configuration with defaults
    */
   private normalizeConfig(config: AuthFlowConfig): NormalizedConfig {
     return {
       baseURL: config.baseURL,
+      mode: config.mode ?? 'token',
       endpoints: {
         login: config.endpoints?.login ?? '/auth/login',
         refresh: config.endpoints?.refresh ?? '/auth/refresh',
         logout: config.endpoints?.logout ?? '/auth/logout',
+        session: config.endpoints?.session ?? '/auth/session',
+        mfa: config.endpoints?.mfa ?? '/auth/mfa',
       },
       tokenFields: {
         access: config.tokenFields?.access ?? 'accessToken',
         refresh: config.tokenFields?.refresh ?? 'refreshToken',
+        expiresIn: config.tokenFields?.expiresIn ?? 'expires_in',
+        refreshExpiresIn: config.tokenFields?.refreshExpiresIn ?? 'refresh_expires_in',
+        tokenType: config.tokenFields?.tokenType ?? 'token_type',
+        scope: config.tokenFields?.scope ?? 'scope',
       },
+      authHeader: config.authHeader ?? {},
+      refreshRequest:
+        typeof config.refreshRequest === 'function'
+          ? config.refreshRequest
+          : {
+              method: config.refreshRequest?.method ?? 'POST',
+              encoding: config.refreshRequest?.encoding ?? 'json',
+              tokenPlacement: config.refreshRequest?.tokenPlacement ?? 'body',
+              tokenField: config.refreshRequest?.tokenField ?? 'refreshToken',
+              headerName: config.refreshRequest?.headerName ?? 'Authorization',
+              headerScheme: config.refreshRequest?.headerScheme ?? 'Bearer',
+              params: config.refreshRequest?.params ?? {},
+            },
       storage: config.storage ?? 'localStorage',
       timeout: config.timeout ?? 10000,
+      syncTabs: config.syncTabs ?? false,
+      refreshLock: config.refreshLock ?? false,
+      storageKeyPrefix: config.storageKeyPrefix ?? 'auth_',
+      clockSkewSeconds: config.clockSkewSeconds ?? 0,
+      syncServerTime: config.syncServerTime ?? false,
       ...(config.validateAuth && { validateAuth: config.validateAuth }),
+      ...(config.oauth && { oauth: config.oauth }),
+      ...(config.extractTokens && { extractTokens: config.extractTokens }),
+      ...(config.stepUp && { stepUp: config.stepUp }),
+      ...(config.dpop && { dpop: config.dpop === true ? {} : config.dpop }),
+      ...(config.sessionPolicy && {
+        sessionPolicy: {
+          ...config.sessionPolicy,
+          warningSeconds: config.sessionPolicy.warningSeconds ?? 60,
+          activityEvents: config.sessionPolicy.activityEvents ?? [
+            'mousedown',
+            'keydown',
+            'touchstart',
+            'wheel',
+          ],
+        },
+      }),
+      ...(config.autoRefresh && {
+        autoRefresh: {
+          leewaySeconds:
+            (typeof config.autoRefresh === 'object'
+              ? config.autoRefresh.leewaySeconds
+              : undefined) ?? 60,
+        },
+      }),
     };
   }
 }
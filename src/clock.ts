@@ -0,0 +1,50 @@
+/**
+ * Time source for token checks
+ *
+ * Tolerates a configurable clock skew and can be calibrated against the
+ * server clock, so a wrong local clock does not end sessions early or keep
+ * expired tokens in use.
+ */
+export class Clock {
+  readonly skewSeconds: number;
+  private offset = 0;
+
+  constructor(skewSeconds = 0) {
+    this.skewSeconds = skewSeconds;
+  }
+
+  /**
+   * Estimated server time in milliseconds
+   */
+  now(): number {
+    return Date.now() + this.offset;
+  }
+
+  /**
+   * Check if a time (ms) has passed, allowing for clock skew
+   */
+  isPast(time: number): boolean {
+    return time < this.now() - this.skewSeconds * 1000;
+  }
+
+  /**
+   * Check if a time (ms) is still ahead, allowing for clock skew
+   */
+  isFuture(time: number): boolean {
+    return time > this.now() + this.skewSeconds * 1000;
+  }
+
+  /**
+   * Estimate the server clock from a response Date header
+   * The header has one second resolution, so the middle of that second is
+   * compared with the middle of the request round trip.
+   */
+  calibrate(dateHeader: string, sentAt: number, receivedAt: number): void {
+    const serverTime = Date.parse(dateHeader);
+    if (Number.isNaN(serverTime)) {
+      return;
+    }
+
+    this.offset = serverTime + 500 - (sentAt + receivedAt) / 2;
+  }
+}
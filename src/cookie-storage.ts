@@ -0,0 +1,179 @@
+import { StorageAdapter } from './types';
+import { extractJWTClaims } from './utils/jwt';
+
+// Browsers cap a cookie at ~4096 bytes including its name and attributes
+const MAX_CHUNK_SIZE = 3800;
+
+export interface CookieStorageOptions {
+  domain?: string;
+  path?: string;
+  /** Defaults to true on https pages */
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Lifetime in seconds, derived from the longest-lived stored JWT when omitted */
+  maxAge?: number;
+}
+
+/**
+ * Cookie storage adapter
+ *
+ * Values larger than a single cookie are split into `name.0`, `name.1`, ...
+ * Without a configured `maxAge` every cookie lives as long as the longest-lived
+ * stored JWT, so the access token cookie is kept until the refresh token expires.
+ */
+export class CookieStorage implements StorageAdapter {
+  private readonly options: CookieStorageOptions;
+  private readonly knownKeys = new Set<string>();
+
+  constructor(options: CookieStorageOptions = {}) {
+    this.options = options;
+  }
+
+  get(key: string): string | null {
+    this.knownKeys.add(key);
+
+    const cookies = readCookies();
+    let encoded = cookies.get(key);
+
+    if (encoded === undefined) {
+      const chunks: string[] = [];
+      for (let i = 0; cookies.has(`${key}.${i}`); i++) {
+        chunks.push(cookies.get(`${key}.${i}`) as string);
+      }
+      encoded = chunks.length > 0 ? chunks.join('') : undefined;
+    }
+
+    if (encoded === undefined) {
+      return null;
+    }
+
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      return null;
+    }
+  }
+
+  set(key: string, value: string): void {
+    this.knownKeys.add(key);
+
+    if (this.options.maxAge !== undefined) {
+      this.writeValue(key, value, this.options.maxAge);
+      return;
+    }
+
+    const maxAge = this.getSessionMaxAge(key, value);
+    this.writeValue(key, value, maxAge);
+
+    // A longer-lived token extends the cookies written before it
+    if (maxAge !== undefined && maxAge === maxAgeFromToken(value)) {
+      this.knownKeys.forEach((other) => {
+        const stored = other === key ? null : this.get(other);
+        if (stored !== null) {
+          this.writeValue(other, stored, maxAge);
+        }
+      });
+    }
+  }
+
+  remove(key: string): void {
+    const cookies = readCookies();
+
+    if (cookies.has(key)) {
+      this.writeCookie(key, '', 0);
+    }
+
+    for (let i = 0; cookies.has(`${key}.${i}`); i++) {
+      this.writeCookie(`${key}.${i}`, '', 0);
+    }
+  }
+
+  /**
+   * Remove the cookies this adapter has read or written
+   */
+  clear(): void {
+    this.knownKeys.forEach((key) => this.remove(key));
+  }
+
+  /**
+   * Lifetime of the longest-lived JWT among the value and the other stored cookies
+   */
+  private getSessionMaxAge(key: string, value: string): number | undefined {
+    const maxAges = [...this.knownKeys]
+      .map((other) => (other === key ? value : this.get(other)))
+      .map((stored) => (stored === null ? undefined : maxAgeFromToken(stored)))
+      .filter((maxAge): maxAge is number => maxAge !== undefined);
+
+    return maxAges.length > 0 ? Math.max(...maxAges) : undefined;
+  }
+
+  private writeValue(key: string, value: string, maxAge: number | undefined): void {
+    this.remove(key);
+
+    const encoded = encodeURIComponent(value);
+
+    if (encoded.length <= MAX_CHUNK_SIZE) {
+      this.writeCookie(key, encoded, maxAge);
+      return;
+    }
+
+    for (let i = 0; i * MAX_CHUNK_SIZE < encoded.length; i++) {
+      const chunk = encoded.slice(i * MAX_CHUNK_SIZE, (i + 1) * MAX_CHUNK_SIZE);
+      this.writeCookie(`${key}.${i}`, chunk, maxAge);
+    }
+  }
+
+  private writeCookie(name: string, value: string, maxAge: number | undefined): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    const secure =
+      this.options.secure ?? (typeof location !== 'undefined' && location.protocol === 'https:');
+
+    const attributes = [
+      `${name}=${value}`,
+      `path=${this.options.path ?? '/'}`,
+      `SameSite=${this.options.sameSite ?? 'Lax'}`,
+    ];
+
+    if (this.options.domain) {
+      attributes.push(`domain=${this.options.domain}`);
+    }
+    if (maxAge !== undefined) {
+      attributes.push(`max-age=${Math.max(Math.floor(maxAge), 0)}`);
+    }
+    if (secure) {
+      attributes.push('Secure');
+    }
+
+    document.cookie = attributes.join('; ');
+  }
+}
+
+function readCookies(): Map<string, string> {
+  const cookies = new Map<string, string>();
+  if (typeof document === 'undefined' || !document.cookie) {
+    return cookies;
+  }
+
+  document.cookie.split(';').forEach((pair) => {
+    const index = pair.indexOf('=');
+    if (index === -1) {
+      return;
+    }
+
+    cookies.set(pair.slice(0, index).trim(), pair.slice(index + 1).trim());
+  });
+
+  return cookies;
+}
+
+function maxAgeFromToken(value: string): number | undefined {
+  const claims = extractJWTClaims(value);
+  if (!claims || typeof claims.exp !== 'number') {
+    return undefined;
+  }
+
+  return claims.exp - Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,150 @@
+import { DPoPConfig } from './types';
+import { Clock } from './clock';
+import { openDatabase, promisifyRequest } from './indexeddb-storage';
+import { base64UrlEncode, generateRandomString } from './utils/pkce';
+
+const KEY_STORE_NAME = 'keys';
+const KEY_ID = 'dpop-key-pair';
+
+interface DPoPKey {
+  keyPair: CryptoKeyPair;
+  jwk: JsonWebKey;
+}
+
+/**
+ * DPoP proof generation (RFC 9449)
+ *
+ * Proofs are signed with an ES256 key pair whose private key cannot be
+ * exported, so a stolen token cannot be used from another device.
+ */
+export class DPoP {
+  private readonly keyOption: DPoPConfig['keyPair'];
+  private readonly keyDatabaseName: string;
+  private readonly clock: Clock;
+  private readonly nonces = new Map<string, string>();
+  private key: Promise<DPoPKey> | null = null;
+
+  constructor(options: DPoPConfig = {}, clock: Clock = new Clock()) {
+    this.keyOption = options.keyPair;
+    this.keyDatabaseName = options.keyDatabaseName ?? 'auth-flow-keys';
+    this.clock = clock;
+  }
+
+  /**
+   * Create a proof JWT for a request, bound to the access token when given
+   */
+  async createProof(method: string, url: string, accessToken?: string): Promise<string> {
+    const { keyPair, jwk } = await this.getKey();
+    const target = resolveURL(url);
+    const nonce = this.nonces.get(target.origin);
+
+    const header = { typ: 'dpop+jwt', alg: 'ES256', jwk };
+    const payload = {
+      jti: generateRandomString(16),
+      htm: method.toUpperCase(),
+      // htu excludes the query and fragment
+      htu: `${target.origin}${target.pathname}`,
+      iat: Math.floor(this.clock.now() / 1000),
+      ...(accessToken && { ath: await sha256(accessToken) }),
+      ...(nonce && { nonce }),
+    };
+
+    const signingInput = `${encodeJSON(header)}.${encodeJSON(payload)}`;
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      keyPair.privateKey,
+      new TextEncoder().encode(signingInput)
+    );
+
+    return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * Remember the latest nonce a server asked for
+   */
+  setNonce(url: string, nonce: string): void {
+    this.nonces.set(resolveURL(url).origin, nonce);
+  }
+
+  private getKey(): Promise<DPoPKey> {
+    if (!this.key) {
+      const option = this.keyOption;
+      const keyPair =
+        typeof option === 'function'
+          ? option()
+          : option
+            ? Promise.resolve(option)
+            : loadOrCreateKeyPair(this.keyDatabaseName);
+
+      this.key = keyPair.then(async (pair) => ({
+        keyPair: pair,
+        jwk: toPublicJWK(await crypto.subtle.exportKey('jwk', pair.publicKey)),
+      }));
+
+      // Allow a later call to retry after a failed load
+      this.key.catch(() => {
+        this.key = null;
+      });
+    }
+
+    return this.key;
+  }
+}
+
+/**
+ * Load the key pair from IndexedDB, generating it on first use
+ */
+async function loadOrCreateKeyPair(databaseName: string): Promise<CryptoKeyPair> {
+  const database = await openDatabase(databaseName, KEY_STORE_NAME);
+  const readKeyPair = async (): Promise<CryptoKeyPair | null> => {
+    const store = database.transaction(KEY_STORE_NAME, 'readonly').objectStore(KEY_STORE_NAME);
+    const stored = await promisifyRequest<unknown>(store.get(KEY_ID));
+    return stored && typeof stored === 'object' ? (stored as CryptoKeyPair) : null;
+  };
+
+  const existing = await readKeyPair();
+  if (existing) {
+    return existing;
+  }
+
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+
+  try {
+    const store = database.transaction(KEY_STORE_NAME, 'readwrite').objectStore(KEY_STORE_NAME);
+    await promisifyRequest(store.add(keyPair, KEY_ID));
+    return keyPair;
+  } catch (error) {
+    // Another tab stored its key pair first, use that one
+    const stored = await readKeyPair();
+    if (stored) {
+      return stored;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve a request URL, a baseURL like '/api' gives URLs relative to the page
+ */
+function resolveURL(url: string): URL {
+  return new URL(url, typeof location !== 'undefined' ? location.href : undefined);
+}
+
+/**
+ * Keep only the public members required in the proof header
+ */
+function toPublicJWK(jwk: JsonWebKey): JsonWebKey {
+  return { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y } as JsonWebKey;
+}
+
+function encodeJSON(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return base64UrlEncode(new Uint8Array(digest));
+}
@@ -0,0 +1,154 @@
+import { StorageAdapter, AsyncStorageAdapter } from './types';
+import { openDatabase, promisifyRequest } from './indexeddb-storage';
+
+const KEY_STORE_NAME = 'keys';
+const KEY_ID = 'token-encryption-key';
+const IV_LENGTH = 12;
+
+export interface EncryptedStorageOptions {
+  /** Encryption key, or a function resolving it. Defaults to a key kept in IndexedDB */
+  key?: CryptoKey | (() => Promise<CryptoKey>);
+  /** IndexedDB database used for the generated key */
+  keyDatabaseName?: string;
+}
+
+/**
+ * Storage wrapper encrypting values at rest with AES-GCM
+ *
+ * Each write uses a fresh IV. Values that cannot be decrypted (tampered data,
+ * rotated key, plain text from before encryption was enabled) read as missing.
+ */
+export class EncryptedStorage implements AsyncStorageAdapter {
+  readonly async = true;
+  private readonly storage: StorageAdapter | AsyncStorageAdapter;
+  private readonly keyOption: EncryptedStorageOptions['key'];
+  private readonly keyDatabaseName: string;
+  private key: Promise<CryptoKey> | null = null;
+
+  constructor(
+    storage: StorageAdapter | AsyncStorageAdapter,
+    options: EncryptedStorageOptions = {}
+  ) {
+    this.storage = storage;
+    this.keyOption = options.key;
+    this.keyDatabaseName = options.keyDatabaseName ?? 'auth-flow-keys';
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.storage.get(key);
+    if (!value) {
+      return null;
+    }
+
+    try {
+      return await this.decrypt(value);
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.storage.set(key, await this.encrypt(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.storage.remove(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+
+  private async encrypt(value: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getKey(),
+      new TextEncoder().encode(value)
+    );
+
+    return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+  }
+
+  private async decrypt(value: string): Promise<string> {
+    const [iv, ciphertext] = value.split('.');
+    if (!iv || !ciphertext) {
+      throw new Error('Invalid encrypted value');
+    }
+
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) },
+      await this.getKey(),
+      fromBase64(ciphertext)
+    );
+
+    return new TextDecoder().decode(plaintext);
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.key) {
+      const option = this.keyOption;
+      this.key =
+        typeof option === 'function'
+          ? option()
+          : option
+            ? Promise.resolve(option)
+            : loadOrCreateKey(this.keyDatabaseName);
+
+      // Allow a later call to retry after a failed load
+      this.key.catch(() => {
+        this.key = null;
+      });
+    }
+
+    return this.key;
+  }
+}
+
+/**
+ * Load the non-extractable key from IndexedDB, generating it on first use
+ */
+async function loadOrCreateKey(databaseName: string): Promise<CryptoKey> {
+  const database = await openDatabase(databaseName, KEY_STORE_NAME);
+  const readKey = async (): Promise<CryptoKey | null> => {
+    const store = database.transaction(KEY_STORE_NAME, 'readonly').objectStore(KEY_STORE_NAME);
+    const stored = await promisifyRequest<unknown>(store.get(KEY_ID));
+    return stored && typeof stored === 'object' ? (stored as CryptoKey) : null;
+  };
+
+  const existing = await readKey();
+  if (existing) {
+    return existing;
+  }
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+
+  try {
+    const store = database.transaction(KEY_STORE_NAME, 'readwrite').objectStore(KEY_STORE_NAME);
+    await promisifyRequest(store.add(key, KEY_ID));
+    return key;
+  } catch (error) {
+    // Another tab stored its key first, use that one
+    const stored = await readKey();
+    if (stored) {
+      return stored;
+    }
+    throw error;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// Return type is inferred so it stays a BufferSource across TypeScript lib versions
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,55 @@
+import { AuthEventMap, AuthEventType, AuthEventHandler } from './types';
+
+/**
+ * Typed event emitter for authentication lifecycle events
+ */
+export class AuthEventEmitter {
+  private readonly handlers = new Map<AuthEventType, Set<(payload: never) => void>>();
+
+  /**
+   * Subscribe to an event, returns an unsubscribe function
+   */
+  on<K extends AuthEventType>(event: K, handler: AuthEventHandler<K>): () => void {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Remove a previously registered handler
+   */
+  off<K extends AuthEventType>(event: K, handler: AuthEventHandler<K>): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Notify all handlers registered for an event
+   */
+  emit<K extends AuthEventType>(event: K, payload: AuthEventMap[K]): void {
+    const handlers = this.handlers.get(event);
+    if (!handlers) {
+      return;
+    }
+
+    // Handlers are stored per event, so they all take this event's payload
+    [...(handlers as Set<AuthEventHandler<K>>)].forEach((handler) => {
+      try {
+        handler(payload);
+      } catch {
+        // A failing listener must not break the auth flow
+      }
+    });
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
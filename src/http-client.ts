@@ -1,15 +1,22 @@
 import { HttpResponse, RequestConfig, AuthError, NormalizedConfig } from './types';
+import { DPoP } from './dpop';
+import { Clock } from './clock';
+import { parseWWWAuthenticate } from './utils/www-authenticate';
 
 /**
  * HTTP client for making requests
  */
 export class HttpClient {
   private readonly config: NormalizedConfig;
+  private readonly dpop: DPoP | null;
+  private readonly clock: Clock | null;
   private requestQueue: Array<() => Promise<unknown>> = [];
   private isRefreshing = false;
 
-  constructor(config: NormalizedConfig) {
+  constructor(config: NormalizedConfig, dpop: DPoP | null = null, clock: Clock | null = null) {
     this.config = config;
+    this.dpop = dpop;
+    this.clock = clock;
   }
 
   /**
@@ -24,11 +31,38 @@ export class HttpClient {
     const fullUrl = this.buildUrl(url);
     const requestConfig = this.buildRequestConfig(method, data, config);
 
+    if (this.dpop) {
+      (requestConfig.headers as Record<string, string>).DPoP = await this.dpop.createProof(
+        method,
+        fullUrl,
+        config.boundAccessToken
+      );
+    }
+
     try {
+      const sentAt = Date.now();
       const response = await fetch(fullUrl, requestConfig);
 
+      // Cross-origin APIs must expose the Date header for this to work
+      const serverDate = this.clock ? response.headers?.get('Date') : null;
+      if (this.clock && serverDate) {
+        this.clock.calibrate(serverDate, sentAt, Date.now());
+      }
+
+      const nonce = this.dpop ? response.headers?.get('DPoP-Nonce') : null;
+      if (this.dpop && nonce) {
+        this.dpop.setNonce(fullUrl, nonce);
+      }
+
       if (!response.ok) {
-        throw this.createError(response);
+        const error = await this.createResponseError(response);
+
+        // Retry once with the nonce the server asked for
+        if (nonce && !config.isNonceRetry && isNonceChallenge(error)) {
+          return this.request<T>(method, url, data, { ...config, isNonceRetry: true });
+        }
+
+        throw error;
       }
 
       const responseData = await this.parseResponse<T>(response);
@@ -157,8 +191,9 @@ export class HttpClient {
     data?: unknown,
     config: RequestConfig = {}
   ): RequestInit {
+    const isForm = data instanceof URLSearchParams;
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      'Content-Type': isForm ? 'application/x-www-form-urlencoded' : 'application/json',
       ...config.headers,
     };
 
@@ -168,8 +203,13 @@ export class HttpClient {
       signal: AbortSignal.timeout(config.timeout || this.config.timeout),
     };
 
+    // Session cookies must be sent with every request in cookie mode
+    if (this.config.mode === 'cookie' || config.withCredentials) {
+      requestConfig.credentials = 'include';
+    }
+
     if (data && ['POST', 'PUT', 'PATCH'].includes(method.toUpperCase())) {
-      requestConfig.body = JSON.stringify(data);
+      requestConfig.body = isForm ? data.toString() : JSON.stringify(data);
     }
 
     return requestConfig;
@@ -193,6 +233,26 @@ export class HttpClient {
     return headers;
   }
 
+  private async createResponseError(response: Response): Promise<AuthError> {
+    const error = this.createError(response);
+
+    const challenge = response.headers?.get('WWW-Authenticate');
+    if (challenge) {
+      error.challenges = parseWWWAuthenticate(challenge);
+    }
+
+    try {
+      const data = await this.parseResponse(response);
+      if (data !== undefined && data !== '') {
+        error.data = data;
+      }
+    } catch {
+      // Body is optional on error responses
+    }
+
+    return error;
+  }
+
   private createError(response: Response | null, message?: string, status?: number): AuthError {
     return {
       status: status || response?.status || 500,
@@ -201,3 +261,14 @@ export class HttpClient {
     };
   }
 }
+
+/**
+ * Detect a DPoP nonce challenge from a resource server (401) or token endpoint (400)
+ */
+function isNonceChallenge(error: AuthError): boolean {
+  const data = error.data as { error?: unknown } | undefined;
+  return (
+    error.challenges?.some((challenge) => challenge.params.error === 'use_dpop_nonce') === true ||
+    data?.error === 'use_dpop_nonce'
+  );
+}
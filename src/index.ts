@@ -18,17 +18,66 @@ export function createAuthFlow(config: AuthFlowConfig): Auth {
  */
 export { Auth } from './auth';
 
+/**
+ * Export storage adapters for custom storage implementations
+ */
+export {
+  MemoryStorage,
+  BrowserStorage,
+  AsyncStorageCache,
+  createStorage,
+  isAsyncStorageAdapter,
+} from './storage';
+export { IndexedDBStorage } from './indexeddb-storage';
+export type { IndexedDBStorageOptions } from './indexeddb-storage';
+export { CookieStorage } from './cookie-storage';
+export type { CookieStorageOptions } from './cookie-storage';
+export { EncryptedStorage } from './encrypted-storage';
+export type { EncryptedStorageOptions } from './encrypted-storage';
+
 /**
  * Export core types
  */
 export type {
   AuthFlowConfig,
   TokenPair,
+  TokenMetadata,
   LoginCredentials,
+  LoginResult,
+  LoginOptions,
+  PersistMode,
+  LoginChallenge,
+  ChallengeMethod,
+  ChallengeResponse,
   AuthError,
+  AuthChallenge,
+  StepUpRequirement,
+  StepUpHandler,
   HttpResponse,
   RequestConfig,
   AuthValidator,
+  TokenExtractor,
+  AuthHeaderConfig,
+  DPoPConfig,
+  AuthHeaderFunction,
+  RefreshRequestConfig,
+  RefreshRequestFunction,
+  AutoRefreshConfig,
+  SessionPolicyConfig,
+  AuthEventMap,
+  AuthEventType,
+  AuthEventHandler,
+  TabSyncAction,
+  StorageAdapter,
+  AsyncStorageAdapter,
+  StorageType,
+  StorageOption,
+  OAuthConfig,
+  OpenIDProviderMetadata,
+  LoginWithRedirectOptions,
+  LogoutOptions,
+  DeviceCodeOptions,
+  DeviceCodeLogin,
 } from './types';
 
 /**
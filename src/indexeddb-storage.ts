@@ -0,0 +1,87 @@
+import { AsyncStorageAdapter } from './types';
+
+export interface IndexedDBStorageOptions {
+  databaseName?: string;
+  storeName?: string;
+}
+
+/**
+ * IndexedDB storage adapter
+ */
+export class IndexedDBStorage implements AsyncStorageAdapter {
+  readonly async = true;
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.databaseName = options.databaseName ?? 'auth-flow';
+    this.storeName = options.storeName ?? 'tokens';
+  }
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.run<unknown>('readonly', (store) => store.get(key));
+    return typeof result === 'string' ? result : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.run('readwrite', (store) => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', (store) => store.clear());
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    const store = database.transaction(this.storeName, mode).objectStore(this.storeName);
+    return promisifyRequest(operation(store));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = openDatabase(this.databaseName, this.storeName);
+      // Allow a later call to retry after a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+
+    return this.database;
+  }
+}
+
+/**
+ * Open a database holding a single key-value object store
+ */
+export function openDatabase(databaseName: string, storeName: string): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  const request = indexedDB.open(databaseName, 1);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(storeName)) {
+      request.result.createObjectStore(storeName);
+    }
+  };
+
+  return promisifyRequest(request);
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,544 @@
+import {
+  AuthError,
+  DeviceCodeLogin,
+  DeviceCodeOptions,
+  NormalizedConfig,
+  OAuthConfig,
+  OpenIDProviderMetadata,
+  PendingRevocation,
+  TokenPair,
+  LoginWithRedirectOptions,
+} from './types';
+import { TokenStore } from './token-store';
+import { HttpClient } from './http-client';
+import { AuthEventEmitter } from './events';
+import { BrowserStorage } from './storage';
+import { extractJWTClaims } from './utils/jwt';
+import { toTokenMetadata } from './utils/token-metadata';
+import { generateCodeVerifier, generateRandomString, createCodeChallenge } from './utils/pkce';
+
+const DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code';
+
+interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+/**
+ * OAuth 2.0 Authorization Code flow with PKCE, with OpenID Connect support
+ */
+export class OAuthClient {
+  private readonly config: NormalizedConfig;
+  private readonly oauth: OAuthConfig;
+  private readonly tokenStore: TokenStore;
+  private readonly httpClient: HttpClient;
+  private readonly events: AuthEventEmitter;
+  // The verifier must survive the redirect but not outlive the tab
+  private readonly transactionStorage: BrowserStorage;
+  private readonly keys: { state: string; verifier: string; nonce: string };
+  private metadata: Promise<OpenIDProviderMetadata> | null = null;
+
+  constructor(
+    config: NormalizedConfig,
+    oauth: OAuthConfig,
+    tokenStore: TokenStore,
+    httpClient: HttpClient,
+    events: AuthEventEmitter
+  ) {
+    this.config = config;
+    this.oauth = oauth;
+    this.tokenStore = tokenStore;
+    this.httpClient = httpClient;
+    this.events = events;
+    this.transactionStorage = new BrowserStorage('sessionStorage');
+    this.keys = {
+      state: `${config.storageKeyPrefix}oauth_state`,
+      verifier: `${config.storageKeyPrefix}oauth_verifier`,
+      nonce: `${config.storageKeyPrefix}oauth_nonce`,
+    };
+  }
+
+  /**
+   * Provider metadata, discovered from the issuer and overridden by explicit endpoints
+   */
+  getMetadata(): Promise<OpenIDProviderMetadata> {
+    if (!this.metadata) {
+      this.metadata = this.loadMetadata();
+      // Allow a later call to retry after a failed discovery
+      this.metadata.catch(() => {
+        this.metadata = null;
+      });
+    }
+
+    return this.metadata;
+  }
+
+  /**
+   * Build the authorize URL and remember the PKCE verifier and state
+   */
+  async createAuthorizeUrl(options: LoginWithRedirectOptions = {}): Promise<string> {
+    const metadata = await this.getMetadata();
+    const redirectUri = this.requireRedirectUri();
+    if (!metadata.authorization_endpoint) {
+      throw new Error('Authorization endpoint not available');
+    }
+
+    const verifier = generateCodeVerifier();
+    const state = options.state ?? generateRandomString(16);
+    const challenge = await createCodeChallenge(verifier);
+    const scope = options.scope ?? this.oauth.scope;
+
+    this.transactionStorage.set(this.keys.verifier, verifier);
+    this.transactionStorage.set(this.keys.state, state);
+    this.transactionStorage.remove(this.keys.nonce);
+
+    const url = new URL(metadata.authorization_endpoint, this.config.baseURL);
+    const params: Record<string, string> = {
+      ...options.params,
+      response_type: 'code',
+      client_id: this.oauth.clientId,
+      redirect_uri: redirectUri,
+      state,
+      code_challenge: challenge,
+      code_challenge_method: 'S256',
+    };
+
+    if (scope) {
+      params.scope = scope;
+    }
+
+    // Bind the ID token to this authorization request
+    if (isOpenIDScope(scope)) {
+      params.nonce = generateRandomString(16);
+      this.transactionStorage.set(this.keys.nonce, params.nonce);
+    }
+
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+  }
+
+  /**
+   * Validate the callback and exchange the authorization code for tokens
+   */
+  async handleRedirectCallback<T = unknown>(callbackUrl: string): Promise<T> {
+    const params = new URL(callbackUrl).searchParams;
+    const expectedState = this.transactionStorage.get(this.keys.state);
+    const verifier = this.transactionStorage.get(this.keys.verifier);
+    const nonce = this.transactionStorage.get(this.keys.nonce);
+
+    this.transactionStorage.remove(this.keys.state);
+    this.transactionStorage.remove(this.keys.verifier);
+    this.transactionStorage.remove(this.keys.nonce);
+
+    const error = params.get('error');
+    if (error) {
+      const description = params.get('error_description');
+      throw new Error(`Authorization failed: ${description ? `${error} (${description})` : error}`);
+    }
+
+    if (!expectedState || params.get('state') !== expectedState || !verifier) {
+      throw new Error('Invalid OAuth state');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new Error('Authorization code not found in callback URL');
+    }
+
+    const metadata = await this.getMetadata();
+    const response = await this.httpClient.post<T>(
+      metadata.token_endpoint,
+      new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.requireRedirectUri(),
+        client_id: this.oauth.clientId,
+        code_verifier: verifier,
+      })
+    );
+
+    return this.completeLogin(response.data, metadata, nonce);
+  }
+
+  /**
+   * Request a device code and return what the user needs to approve it (RFC 8628)
+   */
+  async startDeviceAuthorization<T = unknown>(
+    options: DeviceCodeOptions = {}
+  ): Promise<DeviceCodeLogin<T>> {
+    const metadata = await this.getMetadata();
+    if (!metadata.device_authorization_endpoint) {
+      throw new Error('Device authorization endpoint not available');
+    }
+
+    const scope = options.scope ?? this.oauth.scope;
+    const response = await this.httpClient.post<DeviceAuthorizationResponse>(
+      metadata.device_authorization_endpoint,
+      new URLSearchParams({ client_id: this.oauth.clientId, ...(scope && { scope }) })
+    );
+
+    const data = response.data;
+    const expiresAt = Date.now() + data.expires_in * 1000;
+
+    return {
+      userCode: data.user_code,
+      verificationUri: data.verification_uri,
+      ...(data.verification_uri_complete && {
+        verificationUriComplete: data.verification_uri_complete,
+      }),
+      expiresIn: data.expires_in,
+      complete: () =>
+        this.pollDeviceToken<T>(
+          metadata,
+          data.device_code,
+          data.interval ?? 5,
+          expiresAt,
+          options.signal
+        ),
+    };
+  }
+
+  /**
+   * Refresh tokens with a standard refresh_token grant
+   */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const metadata = await this.getMetadata();
+    const response = await this.httpClient.post(
+      metadata.token_endpoint,
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: this.oauth.clientId,
+      })
+    );
+
+    // Providers without rotation do not return a new refresh token
+    const tokens = extractOAuthTokens(response.data, refreshToken, this.tokenStore.clock.now());
+    if (tokens.idToken) {
+      this.validateIdToken(tokens.idToken, metadata, null);
+    }
+
+    // Keep what the provider did not send again
+    const previous = this.tokenStore.getTokens();
+    const keepRefreshExpiry = !tokens.refreshExpiresAt && tokens.refreshToken === refreshToken;
+
+    return {
+      ...tokens,
+      ...(!tokens.idToken && previous?.idToken && { idToken: previous.idToken }),
+      ...(keepRefreshExpiry &&
+        previous?.refreshExpiresAt && { refreshExpiresAt: previous.refreshExpiresAt }),
+    };
+  }
+
+  /**
+   * Revoke the refresh and access tokens (RFC 7009)
+   * Tokens that cannot be revoked now are kept for retryPendingRevocations()
+   */
+  async revokeTokens(tokens: TokenPair): Promise<void> {
+    await this.revokeAll([
+      ...this.tokenStore.getPendingRevocations(),
+      // Revoking the refresh token first lets the provider drop the whole grant
+      ...(tokens.refreshToken
+        ? [{ token: tokens.refreshToken, tokenTypeHint: 'refresh_token' as const }]
+        : []),
+      { token: tokens.accessToken, tokenTypeHint: 'access_token' },
+    ]);
+  }
+
+  /**
+   * Retry revocations that failed during an earlier logout
+   */
+  async retryPendingRevocations(): Promise<void> {
+    const pending = this.tokenStore.getPendingRevocations();
+    if (pending.length > 0) {
+      await this.revokeAll(pending);
+    }
+  }
+
+  /**
+   * Build the OpenID Connect RP-initiated logout URL
+   */
+  async createEndSessionUrl(idToken?: string, postLogoutRedirectUri?: string): Promise<string> {
+    const metadata = await this.getMetadata();
+    if (!metadata.end_session_endpoint) {
+      throw new Error('End session endpoint not available');
+    }
+
+    const url = new URL(metadata.end_session_endpoint, this.config.baseURL);
+    const redirectUri = postLogoutRedirectUri ?? this.oauth.postLogoutRedirectUri;
+
+    url.searchParams.set('client_id', this.oauth.clientId);
+    if (idToken) {
+      url.searchParams.set('id_token_hint', idToken);
+    }
+    if (redirectUri) {
+      url.searchParams.set('post_logout_redirect_uri', redirectUri);
+    }
+
+    return url.toString();
+  }
+
+  private async pollDeviceToken<T>(
+    metadata: OpenIDProviderMetadata,
+    deviceCode: string,
+    interval: number,
+    expiresAt: number,
+    signal: AbortSignal | undefined
+  ): Promise<T> {
+    let delay = interval;
+
+    for (;;) {
+      await wait(delay * 1000, signal);
+
+      if (Date.now() >= expiresAt) {
+        throw new Error('Device code expired');
+      }
+
+      try {
+        const response = await this.httpClient.post<T>(
+          metadata.token_endpoint,
+          new URLSearchParams({
+            grant_type: DEVICE_CODE_GRANT,
+            device_code: deviceCode,
+            client_id: this.oauth.clientId,
+          })
+        );
+
+        // The user may have cancelled while the request was in flight
+        if (signal?.aborted) {
+          throw new Error('Device authorization cancelled');
+        }
+
+        return await this.completeLogin(response.data, metadata, null);
+      } catch (error) {
+        switch (getOAuthErrorCode(error)) {
+          case 'authorization_pending':
+            continue;
+          case 'slow_down':
+            delay += 5;
+            continue;
+          case 'access_denied':
+            throw new Error('Device authorization denied');
+          case 'expired_token':
+            throw new Error('Device code expired');
+          default:
+            throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate and store a token response, then announce the login
+   */
+  private async completeLogin<T>(
+    data: T,
+    metadata: OpenIDProviderMetadata,
+    nonce: string | null
+  ): Promise<T> {
+    const tokens = extractOAuthTokens(data, null, this.tokenStore.clock.now());
+    if (tokens.idToken) {
+      this.validateIdToken(tokens.idToken, metadata, nonce);
+    }
+
+    this.tokenStore.setTokens(tokens);
+    await this.tokenStore.flush();
+    this.events.emit('login', { tokens, data });
+
+    return data;
+  }
+
+  private requireRedirectUri(): string {
+    if (!this.oauth.redirectUri) {
+      throw new Error('redirectUri is required for the authorization code flow');
+    }
+    return this.oauth.redirectUri;
+  }
+
+  private async revokeAll(revocations: PendingRevocation[]): Promise<void> {
+    let endpoint: string | undefined;
+    try {
+      endpoint = (await this.getMetadata()).revocation_endpoint;
+    } catch {
+      // Provider unreachable, keep everything for the next attempt
+      this.tokenStore.setPendingRevocations(revocations);
+      await this.tokenStore.flush();
+      return;
+    }
+
+    if (!endpoint) {
+      throw new Error('Revocation endpoint not available');
+    }
+
+    const failed: PendingRevocation[] = [];
+    for (const revocation of revocations) {
+      try {
+        await this.httpClient.post(
+          endpoint,
+          new URLSearchParams({
+            token: revocation.token,
+            token_type_hint: revocation.tokenTypeHint,
+            client_id: this.oauth.clientId,
+          })
+        );
+      } catch {
+        failed.push(revocation);
+      }
+    }
+
+    this.tokenStore.setPendingRevocations(failed);
+    await this.tokenStore.flush();
+  }
+
+  /**
+   * Check the ID token claims (OpenID Connect Core 3.1.3.7)
+   *
+   * The token comes straight from the token endpoint over TLS, so the
+   * signature check is left to the server as the spec allows.
+   */
+  private validateIdToken(
+    idToken: string,
+    metadata: OpenIDProviderMetadata,
+    nonce: string | null
+  ): void {
+    const claims = extractJWTClaims(idToken);
+    if (!claims) {
+      throw new Error('Invalid ID token');
+    }
+
+    if (metadata.issuer && claims.iss !== metadata.issuer) {
+      throw new Error('ID token issuer mismatch');
+    }
+
+    const audience: unknown[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audience.includes(this.oauth.clientId)) {
+      throw new Error('ID token audience mismatch');
+    }
+
+    const clock = this.tokenStore.clock;
+    if (typeof claims.exp !== 'number' || clock.isPast(claims.exp * 1000)) {
+      throw new Error('ID token expired');
+    }
+
+    if (typeof claims.nbf === 'number' && clock.isFuture(claims.nbf * 1000)) {
+      throw new Error('ID token not yet valid');
+    }
+
+    if (typeof claims.iat === 'number' && clock.isFuture(claims.iat * 1000)) {
+      throw new Error('ID token issued in the future');
+    }
+
+    if (nonce && claims.nonce !== nonce) {
+      throw new Error('ID token nonce mismatch');
+    }
+  }
+
+  private async loadMetadata(): Promise<OpenIDProviderMetadata> {
+    let discovered: Partial<OpenIDProviderMetadata> = {};
+
+    if (this.oauth.issuer) {
+      const issuer = this.oauth.issuer.replace(/\/$/, '');
+      const response = await this.httpClient.get<OpenIDProviderMetadata>(
+        `${issuer}/.well-known/openid-configuration`
+      );
+      discovered = response.data;
+
+      if (discovered.issuer !== this.oauth.issuer) {
+        throw new Error('Discovered issuer does not match the configured issuer');
+      }
+    }
+
+    const metadata = {
+      ...discovered,
+      issuer: this.oauth.issuer ?? discovered.issuer ?? '',
+      authorization_endpoint:
+        this.oauth.authorizationEndpoint ?? discovered.authorization_endpoint ?? '',
+      token_endpoint: this.oauth.tokenEndpoint ?? discovered.token_endpoint ?? '',
+      ...(this.oauth.userinfoEndpoint && { userinfo_endpoint: this.oauth.userinfoEndpoint }),
+      ...(this.oauth.deviceAuthorizationEndpoint && {
+        device_authorization_endpoint: this.oauth.deviceAuthorizationEndpoint,
+      }),
+      ...(this.oauth.revocationEndpoint && { revocation_endpoint: this.oauth.revocationEndpoint }),
+      ...(this.oauth.endSessionEndpoint && { end_session_endpoint: this.oauth.endSessionEndpoint }),
+    } as OpenIDProviderMetadata;
+
+    if (!metadata.token_endpoint) {
+      throw new Error('OAuth endpoints not configured. Provide an issuer or explicit endpoints');
+    }
+
+    return metadata;
+  }
+}
+
+/**
+ * Wait for a delay, rejecting early when the signal aborts
+ */
+function wait(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Device authorization cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Device authorization cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Read the RFC 6749 error code from a failed token request
+ */
+function getOAuthErrorCode(error: unknown): string | undefined {
+  const data = (error as AuthError | undefined)?.data as { error?: unknown } | undefined;
+  return typeof data?.error === 'string' ? data.error : undefined;
+}
+
+function isOpenIDScope(scope: string | undefined): boolean {
+  return scope?.split(' ').includes('openid') ?? false;
+}
+
+/**
+ * Extract tokens from an RFC 6749 token response
+ */
+function extractOAuthTokens(
+  data: unknown,
+  currentRefreshToken: string | null,
+  now: number
+): TokenPair {
+  const response = data as Record<string, unknown> | null | undefined;
+  const accessToken = response?.access_token;
+  const refreshToken =
+    typeof response?.refresh_token === 'string' ? response.refresh_token : currentRefreshToken;
+  const idToken = typeof response?.id_token === 'string' ? response.id_token : undefined;
+
+  if (typeof accessToken !== 'string' || !accessToken) {
+    throw new Error('Tokens not found in response. Expected field: access_token');
+  }
+
+  return {
+    accessToken,
+    ...(refreshToken && { refreshToken }),
+    ...(idToken && { idToken }),
+    ...toTokenMetadata(
+      {
+        expiresIn: response.expires_in,
+        refreshExpiresIn: response.refresh_expires_in,
+        tokenType: response.token_type,
+        scope: response.scope,
+      },
+      now
+    ),
+  };
+}
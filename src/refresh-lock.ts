@@ -0,0 +1,94 @@
+import { StorageAdapter } from './types';
+
+const LEASE_SETTLE_MS = 50;
+const LEASE_POLL_MS = 100;
+
+interface RefreshLease {
+  owner: string;
+  expires: number;
+}
+
+/**
+ * Cross-tab lock guarding token refresh
+ *
+ * Uses the Web Locks API when available and falls back to a lease written to
+ * localStorage, so only one tab talks to the refresh endpoint at a time.
+ */
+export class RefreshLock {
+  private readonly storage: StorageAdapter;
+  private readonly leaseDuration: number;
+  private readonly lockName: string;
+  private readonly leaseKey: string;
+  private readonly owner = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  constructor(storage: StorageAdapter, leaseDuration: number, keyPrefix: string) {
+    this.storage = storage;
+    this.leaseDuration = leaseDuration;
+    this.lockName = `auth-flow-refresh:${keyPrefix}`;
+    this.leaseKey = `${keyPrefix}refresh_lock`;
+  }
+
+  /**
+   * Run task while holding the lock
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(this.lockName, () => task());
+    }
+
+    await this.acquireLease();
+    try {
+      return await task();
+    } finally {
+      this.releaseLease();
+    }
+  }
+
+  private async acquireLease(): Promise<void> {
+    // A lease always expires, so this loop ends after leaseDuration at worst
+    for (;;) {
+      const lease = this.readLease();
+
+      if (!lease || lease.owner === this.owner || lease.expires <= Date.now()) {
+        this.writeLease();
+
+        // Another tab may have written at the same time, last writer wins
+        await delay(LEASE_SETTLE_MS);
+        if (this.readLease()?.owner === this.owner) {
+          return;
+        }
+      }
+
+      await delay(LEASE_POLL_MS);
+    }
+  }
+
+  private releaseLease(): void {
+    if (this.readLease()?.owner === this.owner) {
+      this.storage.remove(this.leaseKey);
+    }
+  }
+
+  private readLease(): RefreshLease | null {
+    const raw = this.storage.get(this.leaseKey);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const lease = JSON.parse(raw);
+      return typeof lease?.owner === 'string' && typeof lease?.expires === 'number' ? lease : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeLease(): void {
+    const lease: RefreshLease = { owner: this.owner, expires: Date.now() + this.leaseDuration };
+    this.storage.set(this.leaseKey, JSON.stringify(lease));
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
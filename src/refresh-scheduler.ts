@@ -0,0 +1,169 @@
+import { TokenStore } from './token-store';
+import { AuthEventEmitter } from './events';
+import { extractJWTClaims } from './utils/jwt';
+
+// setTimeout overflows for delays above 2^31 - 1 ms
+const MAX_TIMEOUT_DELAY = 2147483647;
+
+// Tokens living shorter than twice the leeway are refreshed halfway through
+const MAX_LEEWAY_SHARE = 0.5;
+
+// Minimum time between two scheduled refreshes, doubled after each failure
+const MIN_REFRESH_INTERVAL = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Schedules token refresh shortly before the access token expires
+ */
+export class RefreshScheduler {
+  private readonly leewaySeconds: number;
+  private readonly tokenStore: TokenStore;
+  private readonly events: AuthEventEmitter;
+  private readonly refresh: () => Promise<void>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private lastRunAt: number | null = null;
+  private failures = 0;
+  private observed: { token: string; at: number } | null = null;
+
+  constructor(
+    leewaySeconds: number,
+    tokenStore: TokenStore,
+    events: AuthEventEmitter,
+    refresh: () => Promise<void>
+  ) {
+    this.leewaySeconds = leewaySeconds;
+    this.tokenStore = tokenStore;
+    this.events = events;
+    this.refresh = refresh;
+  }
+
+  /**
+   * Start watching tokens and page visibility
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = this.events.on('tokensChanged', () => this.schedule());
+
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Stop the scheduler and release all listeners
+   */
+  stop(): void {
+    this.clearTimer();
+
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  /**
+   * Set the timer according to the current access token expiry
+   */
+  private schedule(): void {
+    this.clearTimer();
+
+    if (this.isPageHidden()) {
+      return;
+    }
+
+    // Access-token-only sessions cannot be renewed
+    const tokens = this.tokenStore.getTokens();
+    if (
+      !tokens?.refreshToken ||
+      this.tokenStore.isTokenExpired(tokens.refreshToken, tokens.refreshExpiresAt)
+    ) {
+      return;
+    }
+
+    const expiry = this.tokenStore.getTokenExpiry(tokens.accessToken, tokens.expiresAt);
+    if (expiry === null) {
+      return;
+    }
+
+    const now = this.tokenStore.clock.now();
+    const leeway = Math.min(
+      this.leewaySeconds * 1000,
+      this.getLifetime(tokens.accessToken, expiry, now) * MAX_LEEWAY_SHARE
+    );
+    let delay = expiry - leeway - now;
+
+    // A fast local clock or a token outliving its refresh must not cause a refresh loop
+    if (this.lastRunAt !== null) {
+      const interval = Math.min(MIN_REFRESH_INTERVAL * 2 ** this.failures, MAX_RETRY_DELAY);
+      delay = Math.max(delay, this.lastRunAt + interval - Date.now());
+    }
+
+    if (delay > MAX_TIMEOUT_DELAY) {
+      this.timer = setTimeout(() => this.schedule(), MAX_TIMEOUT_DELAY);
+      return;
+    }
+
+    this.timer = setTimeout(() => this.run(), Math.max(delay, 0));
+  }
+
+  /**
+   * Token lifetime in milliseconds from its iat claim, or from when it was first seen
+   */
+  private getLifetime(accessToken: string, expiry: number, now: number): number {
+    const claims = extractJWTClaims(accessToken);
+    if (claims && typeof claims.iat === 'number') {
+      return expiry - claims.iat * 1000;
+    }
+
+    if (this.observed?.token !== accessToken) {
+      this.observed = { token: accessToken, at: now };
+    }
+    return expiry - this.observed.at;
+  }
+
+  private run(): void {
+    this.timer = null;
+    this.lastRunAt = Date.now();
+    this.refresh().then(
+      () => {
+        this.failures = 0;
+      },
+      () => {
+        // Failures are reported through refreshFailed, retry with a growing delay
+        this.failures++;
+        if (this.unsubscribe) {
+          this.schedule();
+        }
+      }
+    );
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private isPageHidden(): boolean {
+    return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+  }
+
+  private readonly handleVisibilityChange = (): void => {
+    if (this.isPageHidden()) {
+      this.clearTimer();
+    } else {
+      this.schedule();
+    }
+  };
+}
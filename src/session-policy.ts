@@ -0,0 +1,254 @@
+import { NormalizedConfig } from './types';
+import { TokenStore } from './token-store';
+import { AuthEventEmitter } from './events';
+
+// setTimeout overflows for delays above 2^31 - 1 ms
+const MAX_TIMEOUT_DELAY = 2147483647;
+
+// Input events fire in bursts, activity is written to storage at most this often
+const ACTIVITY_WRITE_INTERVAL = 5000;
+
+type SessionPolicyOptions = NonNullable<NormalizedConfig['sessionPolicy']>;
+
+interface SessionDeadline {
+  reason: 'idle' | 'absolute';
+  expiresAt: number;
+}
+
+/**
+ * Ends the session after a period of inactivity or a maximum lifetime
+ *
+ * Session start and last activity live in the token storage, so tabs sharing
+ * localStorage share one idle timer and one lifetime.
+ */
+export class SessionPolicy {
+  private readonly options: SessionPolicyOptions;
+  private readonly tokenStore: TokenStore;
+  private readonly events: AuthEventEmitter;
+  private readonly expire: (reason: string) => Promise<void>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private warnedFor: number | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    options: SessionPolicyOptions,
+    tokenStore: TokenStore,
+    events: AuthEventEmitter,
+    expire: (reason: string) => Promise<void>
+  ) {
+    this.options = options;
+    this.tokenStore = tokenStore;
+    this.events = events;
+    this.expire = expire;
+  }
+
+  /**
+   * Start tracking activity and enforcing the timeouts
+   */
+  start(): void {
+    if (this.unsubscribers.length > 0) {
+      return;
+    }
+
+    this.unsubscribers = [
+      this.events.on('login', () => this.begin()),
+      this.events.on('tokensChanged', ({ tokens }) => (tokens ? this.resume() : this.clearTimer())),
+      this.events.on('logout', () => this.clearTimer()),
+    ];
+
+    if (typeof window !== 'undefined') {
+      this.options.activityEvents.forEach((event) =>
+        window.addEventListener(event, this.handleActivity, { passive: true })
+      );
+      window.addEventListener('storage', this.handleStorageEvent);
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    if (this.tokenStore.hasTokens() || this.tokenStore.hasActiveSession()) {
+      this.resume();
+    }
+  }
+
+  /**
+   * Stop the timers and release all listeners
+   */
+  stop(): void {
+    this.clearTimer();
+
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+
+    if (typeof window !== 'undefined') {
+      this.options.activityEvents.forEach((event) =>
+        window.removeEventListener(event, this.handleActivity)
+      );
+      window.removeEventListener('storage', this.handleStorageEvent);
+    }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  /**
+   * Check the deadlines, ending the session when one has passed
+   * Timers are delayed in background tabs and while the device sleeps
+   */
+  check(): boolean {
+    const deadline = this.getDeadline();
+    if (deadline && deadline.expiresAt <= Date.now()) {
+      this.end(deadline);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Record user or request activity, false when the session already timed out
+   */
+  recordActivity(): boolean {
+    if (!this.check()) {
+      return false;
+    }
+
+    const activity = this.tokenStore.getSessionActivity();
+    const now = Date.now();
+    if (activity && now - activity.lastActivityAt >= ACTIVITY_WRITE_INTERVAL) {
+      this.tokenStore.setSessionActivity({ ...activity, lastActivityAt: now });
+      this.schedule();
+    }
+    return true;
+  }
+
+  /**
+   * Restart the idle timer, the absolute lifetime is not extended
+   */
+  extend(): void {
+    const activity = this.check() ? this.tokenStore.getSessionActivity() : null;
+    if (!activity) {
+      return;
+    }
+
+    this.tokenStore.setSessionActivity({ ...activity, lastActivityAt: Date.now() });
+    this.schedule();
+  }
+
+  /**
+   * Start a new session lifetime
+   */
+  private begin(): void {
+    const now = Date.now();
+    this.tokenStore.setSessionActivity({ startedAt: now, lastActivityAt: now });
+    this.schedule();
+  }
+
+  /**
+   * Continue the stored session, or start one for tokens set without login
+   */
+  private resume(): void {
+    if (this.tokenStore.getSessionActivity()) {
+      this.schedule();
+    } else {
+      this.begin();
+    }
+  }
+
+  /**
+   * Set the timer for the next warning or timeout
+   */
+  private schedule(): void {
+    this.clearTimer();
+
+    const deadline = this.getDeadline();
+    if (!deadline) {
+      return;
+    }
+
+    const now = Date.now();
+    if (deadline.expiresAt <= now) {
+      this.end(deadline);
+      return;
+    }
+
+    const warnAt = deadline.expiresAt - this.options.warningSeconds * 1000;
+    if (warnAt <= now && this.warnedFor !== deadline.expiresAt) {
+      this.warnedFor = deadline.expiresAt;
+      this.events.emit('sessionWarning', deadline);
+    }
+
+    const delay = (warnAt > now ? warnAt : deadline.expiresAt) - now;
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        this.schedule();
+      },
+      Math.min(delay, MAX_TIMEOUT_DELAY)
+    );
+  }
+
+  /**
+   * The earliest of the idle and absolute deadlines
+   */
+  private getDeadline(): SessionDeadline | null {
+    const activity = this.tokenStore.getSessionActivity();
+    if (!activity) {
+      return null;
+    }
+
+    const { idleTimeoutSeconds, absoluteTimeoutSeconds } = this.options;
+    const deadlines: SessionDeadline[] = [];
+    if (idleTimeoutSeconds !== undefined) {
+      deadlines.push({
+        reason: 'idle',
+        expiresAt: activity.lastActivityAt + idleTimeoutSeconds * 1000,
+      });
+    }
+    if (absoluteTimeoutSeconds !== undefined) {
+      deadlines.push({
+        reason: 'absolute',
+        expiresAt: activity.startedAt + absoluteTimeoutSeconds * 1000,
+      });
+    }
+
+    return deadlines.reduce<SessionDeadline | null>(
+      (earliest, deadline) =>
+        !earliest || deadline.expiresAt < earliest.expiresAt ? deadline : earliest,
+      null
+    );
+  }
+
+  private end(deadline: SessionDeadline): void {
+    this.clearTimer();
+    this.warnedFor = null;
+    this.expire(deadline.reason === 'idle' ? 'Idle timeout' : 'Session lifetime exceeded').catch(
+      () => {
+        // Tokens are cleared locally before the server is told
+      }
+    );
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private readonly handleActivity = (): void => {
+    this.recordActivity();
+  };
+
+  private readonly handleStorageEvent = (event: StorageEvent): void => {
+    // Another tab recorded activity or started a session
+    if (event.key === this.tokenStore.keys.activity) {
+      this.schedule();
+    }
+  };
+
+  private readonly handleVisibilityChange = (): void => {
+    if (typeof document !== 'undefined' && document.visibilityState === 'visible') {
+      this.schedule();
+    }
+  };
+}
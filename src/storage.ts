@@ -1,9 +1,10 @@
-import { StorageAdapter } from './types';
+import { StorageAdapter, AsyncStorageAdapter, StorageOption } from './types';
+import { CookieStorage } from './cookie-storage';
 
 /**
  * Memory storage adapter (fallback)
  */
-class MemoryStorage implements StorageAdapter {
+export class MemoryStorage implements StorageAdapter {
   private readonly store = new Map<string, string>();
 
   get(key: string): string | null {
@@ -25,13 +26,18 @@ class MemoryStorage implements StorageAdapter {
 
 /**
  * Browser storage adapter with fallback support
+ *
+ * Given the keys of an Auth instance, clear() only removes those keys instead
+ * of wiping the whole storage area.
  */
-class BrowserStorage implements StorageAdapter {
+export class BrowserStorage implements StorageAdapter {
   private readonly storage: Storage | null;
+  private readonly keys: string[] | undefined;
   private readonly fallback = new MemoryStorage();
 
-  constructor(type: 'localStorage' | 'sessionStorage') {
+  constructor(type: 'localStorage' | 'sessionStorage', keys?: string[]) {
     this.storage = this.getStorage(type);
+    this.keys = keys;
   }
 
   private getStorage(type: 'localStorage' | 'sessionStorage'): Storage | null {
@@ -84,21 +90,143 @@ class BrowserStorage implements StorageAdapter {
   clear(): void {
     if (this.storage) {
       try {
-        this.storage.clear();
+        if (this.keys) {
+          this.removeKeys(this.storage, this.keys);
+        } else {
+          this.storage.clear();
+        }
       } catch {
         // Continue to fallback
       }
     }
     this.fallback.clear();
   }
+
+  private removeKeys(storage: Storage, keys: string[]): void {
+    keys.forEach((key) => storage.removeItem(key));
+  }
+}
+
+/**
+ * Synchronous view over an asynchronous adapter
+ *
+ * Reads are served from an in-memory cache filled by hydrate(), writes update
+ * the cache immediately and are persisted in order in the background.
+ * Given the keys of an Auth instance, clear() only removes those keys.
+ */
+export class AsyncStorageCache implements StorageAdapter {
+  private readonly adapter: AsyncStorageAdapter;
+  private readonly keys: string[] | undefined;
+  private readonly cache = new MemoryStorage();
+  private readonly writtenKeys = new Set<string>();
+  private cleared = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(adapter: AsyncStorageAdapter, keys?: string[]) {
+    this.adapter = adapter;
+    this.keys = keys;
+  }
+
+  async hydrate(keys: string[]): Promise<void> {
+    await Promise.all(
+      keys.map(async (key) => {
+        try {
+          const value = await this.adapter.get(key);
+
+          // Values written since hydration started are more recent
+          if (value !== null && !this.cleared && !this.writtenKeys.has(key)) {
+            this.cache.set(key, value);
+          }
+        } catch {
+          // Unreadable entries are treated as missing
+        }
+      })
+    );
+  }
+
+  async reload(keys: string[]): Promise<void> {
+    await this.pending;
+    await Promise.all(
+      keys.map(async (key) => {
+        try {
+          const value = await this.adapter.get(key);
+          if (value === null) {
+            this.cache.remove(key);
+          } else {
+            this.cache.set(key, value);
+          }
+        } catch {
+          // Keep the cached value
+        }
+      })
+    );
+  }
+
+  get(key: string): string | null {
+    return this.cache.get(key);
+  }
+
+  set(key: string, value: string): void {
+    this.cache.set(key, value);
+    this.writtenKeys.add(key);
+    this.enqueue(() => this.adapter.set(key, value));
+  }
+
+  remove(key: string): void {
+    this.cache.remove(key);
+    this.writtenKeys.add(key);
+    this.enqueue(() => this.adapter.remove(key));
+  }
+
+  clear(): void {
+    if (this.keys) {
+      this.keys.forEach((key) => this.remove(key));
+      return;
+    }
+
+    this.cache.clear();
+    this.cleared = true;
+    this.enqueue(() => this.adapter.clear());
+  }
+
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private enqueue(write: () => Promise<void>): void {
+    this.pending = this.pending.then(write).catch(() => {
+      // Keep the queue alive, the cache stays authoritative for this session
+    });
+  }
+}
+
+/**
+ * Check whether an adapter uses the asynchronous contract
+ */
+export function isAsyncStorageAdapter(
+  adapter: StorageAdapter | AsyncStorageAdapter
+): adapter is AsyncStorageAdapter {
+  return (adapter as AsyncStorageAdapter).async === true;
 }
 
 /**
- * Create storage adapter based on type
+ * Create storage adapter based on type, or resolve a custom adapter
+ * Built-in browser and asynchronous storage scope clear() to keys when given
  */
-export function createStorage(type: 'localStorage' | 'sessionStorage' | 'memory'): StorageAdapter {
-  if (type === 'memory') {
+export function createStorage(option: StorageOption, keys?: string[]): StorageAdapter {
+  if (typeof option === 'function') {
+    return createStorage(option(), keys);
+  }
+
+  if (typeof option === 'object') {
+    return isAsyncStorageAdapter(option) ? new AsyncStorageCache(option, keys) : option;
+  }
+
+  if (option === 'memory') {
     return new MemoryStorage();
   }
-  return new BrowserStorage(type);
+  if (option === 'cookie') {
+    return new CookieStorage();
+  }
+  return new BrowserStorage(option, keys);
 }
@@ -0,0 +1,169 @@
+import { TokenPair, TabSyncAction, PersistMode } from './types';
+import { TokenStore } from './token-store';
+import { AuthEventEmitter } from './events';
+
+interface TabSyncMessage {
+  type: 'tokensChanged';
+  tokens: TokenPair | null;
+  /** Sent from a session in localStorage, tabs sharing it got a storage event */
+  shared: boolean;
+  /** Backend the sender chose at login, null for the configured storage */
+  persist: PersistMode | null;
+}
+
+/**
+ * Keeps the session in sync between browser tabs
+ *
+ * Sessions in localStorage are shared between tabs, so changes are picked up
+ * from `storage` events. Other backends broadcast token changes through a
+ * BroadcastChannel. The backend can change at login, so each change is routed
+ * by the backend holding the session at the time, and receiving tabs store the
+ * tokens in the sender's backend.
+ */
+export class TabSync {
+  private readonly sharedStorage: boolean;
+  private readonly channelName: string;
+  private readonly tokenStore: TokenStore;
+  private readonly events: AuthEventEmitter;
+  private channel: BroadcastChannel | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private applyingRemote = false;
+  private shared = false;
+  private persist: PersistMode | null = null;
+
+  constructor(
+    sharedStorage: boolean,
+    tokenStore: TokenStore,
+    events: AuthEventEmitter,
+    keyPrefix: string
+  ) {
+    this.sharedStorage = sharedStorage;
+    this.channelName = `auth-flow:${keyPrefix}`;
+    this.tokenStore = tokenStore;
+    this.events = events;
+  }
+
+  /**
+   * Start listening for changes made in other tabs
+   */
+  start(): void {
+    this.shared = this.isShared();
+    this.persist = this.tokenStore.getPersistence();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorageEvent);
+    }
+
+    if (this.channel || typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event: MessageEvent<TabSyncMessage>) =>
+      this.handleMessage(event.data);
+    this.unsubscribe = this.events.on('tokensChanged', ({ tokens }) => this.broadcast(tokens));
+  }
+
+  /**
+   * Stop listening and close the channel
+   */
+  stop(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorageEvent);
+    }
+
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+
+  /**
+   * Whether the session lives in localStorage, the configured storage unless a login chose another
+   */
+  private isShared(): boolean {
+    const persistence = this.tokenStore.getPersistence();
+    return persistence ? persistence === 'local' : this.sharedStorage;
+  }
+
+  private broadcast(tokens: TokenPair | null): void {
+    // A logout is announced from the backend of the session it ended
+    if (tokens) {
+      this.shared = this.isShared();
+      this.persist = this.tokenStore.getPersistence();
+    }
+
+    if (this.applyingRemote || !this.channel) {
+      return;
+    }
+
+    const message: TabSyncMessage = {
+      type: 'tokensChanged',
+      tokens,
+      shared: this.shared,
+      persist: this.persist,
+    };
+    this.channel.postMessage(message);
+  }
+
+  private handleMessage(message: TabSyncMessage): void {
+    if (!message || message.type !== 'tokensChanged') {
+      return;
+    }
+
+    // Tabs sharing localStorage with the sender already got a storage event
+    if (message.shared && this.isShared()) {
+      return;
+    }
+
+    const action = resolveAction(this.tokenStore.hasTokens(), message.tokens !== null);
+
+    this.applyingRemote = true;
+    try {
+      if (message.tokens) {
+        // A session the sender did not persist must not reach this tab's storage
+        if (message.persist && message.persist !== this.tokenStore.getPersistence()) {
+          this.tokenStore.setPersistence(message.persist);
+        }
+        this.tokenStore.setTokens(message.tokens);
+      } else {
+        this.tokenStore.clearTokens();
+      }
+    } finally {
+      this.applyingRemote = false;
+    }
+
+    this.events.emit('tabSync', { action, tokens: message.tokens });
+  }
+
+  private readonly handleStorageEvent = (event: StorageEvent): void => {
+    // Token keys are written together, the access token marks each change
+    if (!this.isShared() || (event.key !== null && event.key !== this.tokenStore.keys.access)) {
+      return;
+    }
+
+    const tokens = this.tokenStore.getTokens();
+    const action = resolveAction(event.key !== null && event.oldValue !== null, tokens !== null);
+
+    // The sender broadcast the change to tabs outside localStorage
+    this.applyingRemote = true;
+    try {
+      this.events.emit('tokensChanged', { tokens });
+    } finally {
+      this.applyingRemote = false;
+    }
+    this.events.emit('tabSync', { action, tokens });
+  };
+}
+
+function resolveAction(hadTokens: boolean, hasTokens: boolean): TabSyncAction {
+  if (!hasTokens) {
+    return 'logout';
+  }
+  return hadTokens ? 'refresh' : 'login';
+}
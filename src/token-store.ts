@@ -1,61 +1,360 @@
-import { TokenPair, StorageAdapter } from './types';
-import { isJWTExpired } from './utils/jwt';
+import {
+  TokenPair,
+  TokenMetadata,
+  StorageAdapter,
+  PendingRevocation,
+  SessionActivity,
+  PersistMode,
+} from './types';
+import { AuthEventEmitter } from './events';
+import { Clock } from './clock';
+import { BrowserStorage, MemoryStorage } from './storage';
+import { extractJWTClaims } from './utils/jwt';
+
+export interface StorageKeys {
+  access: string;
+  refresh: string;
+  id: string;
+  metadata: string;
+  session: string;
+  revocations: string;
+  activity: string;
+  persistence: string;
+}
+
+/**
+ * Storage keys of an Auth instance with the given prefix
+ */
+export function getStorageKeys(keyPrefix: string): StorageKeys {
+  return {
+    access: `${keyPrefix}access_token`,
+    refresh: `${keyPrefix}refresh_token`,
+    id: `${keyPrefix}id_token`,
+    metadata: `${keyPrefix}token_metadata`,
+    session: `${keyPrefix}session`,
+    revocations: `${keyPrefix}pending_revocations`,
+    activity: `${keyPrefix}session_activity`,
+    persistence: `${keyPrefix}persistence`,
+  };
+}
 
 /**
  * Token storage and validation
  */
 export class TokenStore {
-  private readonly storage: StorageAdapter;
+  private readonly defaultStorage: StorageAdapter;
+  private readonly backends = new Map<PersistMode, StorageAdapter>();
+  private readonly events: AuthEventEmitter | undefined;
+
+  /**
+   * Backend holding the current session, the configured storage unless a
+   * login chose another persistence
+   */
+  private storage: StorageAdapter;
+
+  /**
+   * Time source for expiry checks
+   */
+  readonly clock: Clock;
+  private hydration: Promise<void> | null = null;
+
+  /**
+   * Storage keys used by this instance
+   */
+  readonly keys: StorageKeys;
 
-  constructor(storage: StorageAdapter) {
+  constructor(
+    storage: StorageAdapter,
+    events?: AuthEventEmitter,
+    keyPrefix = 'auth_',
+    clock: Clock = new Clock()
+  ) {
+    this.defaultStorage = storage;
     this.storage = storage;
+    this.events = events;
+    this.clock = clock;
+    this.keys = getStorageKeys(keyPrefix);
+  }
+
+  /**
+   * Load tokens from asynchronous storage into memory
+   * Resolves immediately for synchronous storage
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      if (this.defaultStorage.hydrate) {
+        this.hydration = this.defaultStorage.hydrate(Object.values(this.keys)).then(() => {
+          this.storage = this.findSessionStorage();
+          const tokens = this.getTokens();
+          if (tokens) {
+            this.events?.emit('tokensChanged', { tokens });
+          }
+        });
+      } else {
+        this.storage = this.findSessionStorage();
+        this.hydration = Promise.resolve();
+      }
+    }
+
+    return this.hydration;
+  }
+
+  /**
+   * Re-read tokens another tab may have written to asynchronous storage
+   */
+  async reload(): Promise<void> {
+    await this.storage.reload?.(Object.values(this.keys));
+  }
+
+  /**
+   * Wait until token writes reach asynchronous storage
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.getStorages().map((storage) => storage.flush?.()));
+  }
+
+  /**
+   * Keep the next session in the backend for mode
+   * A session left in any other backend is removed
+   */
+  setPersistence(mode: PersistMode): void {
+    const target = this.getBackend(mode);
+    this.getStorages()
+      .filter((storage) => storage !== target)
+      .forEach((storage) => this.removeSession(storage));
+    target.set(this.keys.persistence, mode);
+    this.storage = target;
+  }
+
+  /**
+   * Backend chosen at login for the current session, null for the configured storage
+   */
+  getPersistence(): PersistMode | null {
+    const entry = [...this.backends].find(([, backend]) => backend === this.storage);
+    return entry ? entry[0] : null;
   }
 
   /**
    * Store token pair
    */
   setTokens(tokens: TokenPair): void {
-    this.storage.set('auth_access_token', tokens.accessToken);
-    this.storage.set('auth_refresh_token', tokens.refreshToken);
+    if (tokens.refreshToken) {
+      this.storage.set(this.keys.refresh, tokens.refreshToken);
+    } else {
+      this.storage.remove(this.keys.refresh);
+    }
+    if (tokens.idToken) {
+      this.storage.set(this.keys.id, tokens.idToken);
+    } else {
+      this.storage.remove(this.keys.id);
+    }
+
+    const metadata: TokenMetadata = {
+      ...(tokens.expiresAt !== undefined && { expiresAt: tokens.expiresAt }),
+      ...(tokens.refreshExpiresAt !== undefined && { refreshExpiresAt: tokens.refreshExpiresAt }),
+      ...(tokens.tokenType !== undefined && { tokenType: tokens.tokenType }),
+      ...(tokens.scope !== undefined && { scope: tokens.scope }),
+    };
+    if (Object.keys(metadata).length > 0) {
+      this.storage.set(this.keys.metadata, JSON.stringify(metadata));
+    } else {
+      this.storage.remove(this.keys.metadata);
+    }
+
+    // Written last, other tabs treat the access token as the session marker
+    this.storage.set(this.keys.access, tokens.accessToken);
+
+    this.events?.emit('tokensChanged', { tokens });
   }
 
   /**
    * Get stored token pair
    */
   getTokens(): TokenPair | null {
-    const accessToken = this.storage.get('auth_access_token');
-    const refreshToken = this.storage.get('auth_refresh_token');
+    const accessToken = this.storage.get(this.keys.access);
+    const refreshToken = this.storage.get(this.keys.refresh);
 
-    if (!accessToken || !refreshToken) {
+    if (!accessToken) {
       return null;
     }
 
+    const idToken = this.storage.get(this.keys.id);
+
     return {
       accessToken: accessToken,
-      refreshToken: refreshToken,
+      ...(refreshToken && { refreshToken }),
+      ...(idToken && { idToken }),
+      ...this.getMetadata(),
     };
   }
 
+  /**
+   * Get stored token metadata
+   */
+  private getMetadata(): TokenMetadata {
+    const value = this.storage.get(this.keys.metadata);
+    if (!value) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+
   /**
    * Get only access token
    */
   getAccessToken(): string | null {
-    return this.storage.get('auth_access_token');
+    return this.storage.get(this.keys.access);
   }
 
   /**
    * Get only refresh token
    */
   getRefreshToken(): string | null {
-    return this.storage.get('auth_refresh_token');
+    return this.storage.get(this.keys.refresh);
+  }
+
+  /**
+   * Get only ID token
+   */
+  getIdToken(): string | null {
+    return this.storage.get(this.keys.id);
   }
 
   /**
    * Clear all tokens
    */
   clearTokens(): void {
-    this.storage.remove('auth_access_token');
-    this.storage.remove('auth_refresh_token');
+    const hadTokens = this.hasTokens();
+
+    this.getStorages().forEach((storage) => this.removeSession(storage));
+    this.storage = this.defaultStorage;
+
+    if (hadTokens) {
+      this.events?.emit('tokensChanged', { tokens: null });
+    }
+  }
+
+  /**
+   * Mark a server-managed (cookie) session as active or not
+   */
+  setSessionActive(active: boolean): void {
+    if (active) {
+      this.storage.set(this.keys.session, '1');
+    } else {
+      this.storage.remove(this.keys.session);
+    }
+  }
+
+  /**
+   * Check if a server-managed (cookie) session is active
+   */
+  hasActiveSession(): boolean {
+    return this.storage.get(this.keys.session) === '1';
+  }
+
+  /**
+   * Session start and last activity, recorded when a session policy is configured
+   */
+  getSessionActivity(): SessionActivity | null {
+    const value = this.storage.get(this.keys.activity);
+    if (!value) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store session start and last activity
+   */
+  setSessionActivity(activity: SessionActivity): void {
+    this.storage.set(this.keys.activity, JSON.stringify(activity));
+  }
+
+  /**
+   * Tokens whose revocation failed and should be retried
+   */
+  getPendingRevocations(): PendingRevocation[] {
+    const value = this.defaultStorage.get(this.keys.revocations);
+    if (!value) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Replace the list of tokens awaiting revocation
+   */
+  setPendingRevocations(revocations: PendingRevocation[]): void {
+    if (revocations.length > 0) {
+      this.defaultStorage.set(this.keys.revocations, JSON.stringify(revocations));
+    } else {
+      this.defaultStorage.remove(this.keys.revocations);
+    }
+  }
+
+  /**
+   * Find the backend holding the session, the configured storage is checked first
+   * Other backends only count when a login chose them, memory sessions never survive a reload
+   */
+  private findSessionStorage(): StorageAdapter {
+    if (this.hasSession(this.defaultStorage)) {
+      return this.defaultStorage;
+    }
+
+    const modes: PersistMode[] = ['local', 'session'];
+    const mode = modes.find((candidate) => {
+      const backend = this.getBackend(candidate);
+      return backend.get(this.keys.persistence) === candidate && this.hasSession(backend);
+    });
+    return mode ? this.getBackend(mode) : this.defaultStorage;
+  }
+
+  private hasSession(storage: StorageAdapter): boolean {
+    return Boolean(storage.get(this.keys.access)) || storage.get(this.keys.session) === '1';
+  }
+
+  private getBackend(mode: PersistMode): StorageAdapter {
+    let backend = this.backends.get(mode);
+    if (!backend) {
+      backend =
+        mode === 'memory'
+          ? new MemoryStorage()
+          : new BrowserStorage(
+              mode === 'local' ? 'localStorage' : 'sessionStorage',
+              Object.values(this.keys)
+            );
+      this.backends.set(mode, backend);
+    }
+    return backend;
+  }
+
+  private getStorages(): StorageAdapter[] {
+    return [this.defaultStorage, ...this.backends.values()];
+  }
+
+  /**
+   * Remove session entries, pending revocations stay in the configured storage
+   */
+  private removeSession(storage: StorageAdapter): void {
+    const { access, refresh, id, metadata, session, activity, persistence } = this.keys;
+    [access, refresh, id, metadata, session, activity, persistence].forEach((key) =>
+      storage.remove(key)
+    );
   }
 
   /**
@@ -67,24 +366,49 @@ export class TokenStore {
   }
 
   /**
-   * Check if JWT token is expired using secure utility
+   * Expiry in milliseconds since epoch
+   * JWTs use their exp claim, opaque tokens the server-reported expiresAt
    */
-  isTokenExpired(token: string): boolean {
-    return isJWTExpired(token);
+  getTokenExpiry(token: string, expiresAt?: number): number | null {
+    const claims = extractJWTClaims(token);
+    if (claims && typeof claims.exp === 'number') {
+      return claims.exp * 1000;
+    }
+    return expiresAt ?? null;
+  }
+
+  /**
+   * Check if a token is expired, tokens without a known expiry are not
+   */
+  isTokenExpired(token: string, expiresAt?: number): boolean {
+    const expiry = this.getTokenExpiry(token, expiresAt);
+    return expiry !== null && this.clock.isPast(expiry);
   }
 
   /**
    * Check if we have valid tokens
+   * With refreshCookie the refresh token is in a cookie and outlives the access token
    */
-  hasValidTokens(): boolean {
+  hasValidTokens(refreshCookie = false): boolean {
     const tokens = this.getTokens();
     if (!tokens) {
       return false;
     }
 
     // If refresh token is expired, tokens are invalid
-    if (this.isTokenExpired(tokens.refreshToken)) {
+    if (tokens.refreshToken) {
+      if (this.isTokenExpired(tokens.refreshToken, tokens.refreshExpiresAt)) {
+        this.clearTokens();
+        this.events?.emit('sessionExpired', { reason: 'Refresh token expired' });
+        return false;
+      }
+      return true;
+    }
+
+    // Without a refresh token the session ends with the access token
+    if (!refreshCookie && this.isTokenExpired(tokens.accessToken, tokens.expiresAt)) {
       this.clearTokens();
+      this.events?.emit('sessionExpired', { reason: 'Access token expired' });
       return false;
     }
 
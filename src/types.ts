@@ -2,9 +2,38 @@
  * Core type definitions for AuthFlow
  */
 
-export interface TokenPair {
+/**
+ * Server-reported token details, used for expiry of opaque (non-JWT) tokens
+ */
+export interface TokenMetadata {
+  /** Access token expiry in milliseconds since epoch, from expires_in */
+  expiresAt?: number;
+  /** Refresh token expiry in milliseconds since epoch, from refresh_expires_in */
+  refreshExpiresAt?: number;
+  tokenType?: string;
+  scope?: string;
+}
+
+export interface TokenPair extends TokenMetadata {
   accessToken: string;
-  refreshToken: string;
+  /** Absent for access-token-only sessions */
+  refreshToken?: string;
+  /** OpenID Connect ID token, present after an openid scope login */
+  idToken?: string;
+}
+
+/**
+ * Where a session is kept: 'local' survives browser restarts, 'session' ends
+ * with the tab and 'memory' with the page
+ */
+export type PersistMode = 'local' | 'session' | 'memory';
+
+export interface LoginOptions {
+  /**
+   * Storage backend for this session, overrides the storage option
+   * Only with the localStorage, sessionStorage and memory storage options
+   */
+  persist?: PersistMode;
 }
 
 export interface LoginCredentials {
@@ -13,28 +42,280 @@ export interface LoginCredentials {
 
 export type AuthValidator = (tokens: TokenPair | null) => boolean;
 
+/**
+ * Second factors a login challenge can be answered with
+ * 'sms' codes can be requested again by answering with the method only
+ */
+export type ChallengeMethod = 'totp' | 'sms' | 'backup_code';
+
+/**
+ * Additional step required by the server before tokens are issued
+ */
+export interface LoginChallenge {
+  challengeId: string;
+  methods: ChallengeMethod[];
+  /** Raw response that announced the challenge */
+  data: unknown;
+}
+
+export type LoginResult<T = unknown> =
+  | { status: 'authenticated'; data: T }
+  | { status: 'challenge'; challenge: LoginChallenge };
+
+/**
+ * Answer to a login challenge, omit the code to have a new one sent
+ */
+export type ChallengeResponse =
+  | { code: string; method?: ChallengeMethod }
+  | { method: ChallengeMethod; code?: undefined };
+
+export type TokenExtractor = (response: HttpResponse) => TokenPair;
+
+export interface DPoPConfig {
+  /** Signing key pair (ES256), or a function resolving it. Defaults to a key pair kept in IndexedDB */
+  keyPair?: CryptoKeyPair | (() => Promise<CryptoKeyPair>);
+  /** IndexedDB database used for the generated key pair */
+  keyDatabaseName?: string;
+}
+
+export interface AuthHeaderConfig {
+  /** Header name (default 'Authorization') */
+  name?: string;
+  /** Prefix for the header value, empty for none (default 'Bearer') */
+  scheme?: string;
+  /** Send the token as this query parameter instead of a header */
+  queryParam?: string;
+}
+
+export type AuthHeaderFunction = (
+  token: string,
+  request: { method: string; url: string }
+) => Record<string, string>;
+
+export type RefreshRequestFunction = (refreshToken: string) => Promise<TokenPair>;
+
+export interface RefreshRequestConfig {
+  /** HTTP method (default 'POST') */
+  method?: string;
+  /** Body encoding, 'form' sends application/x-www-form-urlencoded (default 'json') */
+  encoding?: 'json' | 'form';
+  /**
+   * Where the refresh token goes (default 'body')
+   * 'cookie' sends no token and includes credentials so an HttpOnly cookie carries it
+   */
+  tokenPlacement?: 'body' | 'header' | 'cookie';
+  /** Body field for the refresh token (default 'refreshToken') */
+  tokenField?: string;
+  /** Header for the refresh token when placed in a header (default 'Authorization') */
+  headerName?: string;
+  /** Prefix for the header value, empty for none (default 'Bearer') */
+  headerScheme?: string;
+  /** Extra body parameters such as grant_type or client_id */
+  params?: Record<string, string>;
+}
+
 export interface AuthFlowConfig {
   baseURL: string;
+  /**
+   * 'token' stores tokens client-side, 'cookie' relies on HttpOnly cookies
+   * set by the server and never stores tokens (default 'token')
+   */
+  mode?: 'token' | 'cookie';
   endpoints?: {
     login?: string;
     refresh?: string;
     logout?: string;
+    /** Session status endpoint used by checkSession() in cookie mode */
+    session?: string;
+    /** Endpoint answering login challenges, used by completeChallenge() */
+    mfa?: string;
   };
+  /** Response fields holding the tokens, dot paths reach nested fields ('data.session.access_token') */
   tokenFields?: {
     access?: string;
     refresh?: string;
+    /** Access token lifetime in seconds (default 'expires_in') */
+    expiresIn?: string;
+    /** Refresh token lifetime in seconds (default 'refresh_expires_in') */
+    refreshExpiresIn?: string;
+    tokenType?: string;
+    scope?: string;
   };
-  storage?: 'localStorage' | 'sessionStorage' | 'memory';
+  /** Read tokens from login and refresh responses, replaces tokenFields */
+  extractTokens?: TokenExtractor;
+  /** How the access token is attached to requests (default Authorization: Bearer) */
+  authHeader?: AuthHeaderConfig | AuthHeaderFunction;
+  /** Bind tokens to a browser key with DPoP proofs (RFC 9449) */
+  dpop?: boolean | DPoPConfig;
+  /** Shape of the refresh call, or a function performing it */
+  refreshRequest?: RefreshRequestConfig | RefreshRequestFunction;
+  /** Re-authenticate when a request needs more scope or a higher assurance level, then retry it */
+  stepUp?: StepUpHandler;
+  storage?: StorageOption;
   timeout?: number;
   validateAuth?: AuthValidator;
+  autoRefresh?: boolean | AutoRefreshConfig;
+  /** Idle and absolute session timeouts, requests and user input count as activity */
+  sessionPolicy?: SessionPolicyConfig;
+  syncTabs?: boolean;
+  refreshLock?: boolean;
+  /** Prefix for storage keys, lets several instances share one origin (default 'auth_') */
+  storageKeyPrefix?: string;
+  /** Tolerance for clock differences in exp, nbf and iat checks (default 0) */
+  clockSkewSeconds?: number;
+  /** Estimate the server clock from response Date headers (default false) */
+  syncServerTime?: boolean;
+  oauth?: OAuthConfig;
+}
+
+/**
+ * OAuth 2.0 Authorization Code flow with PKCE
+ * Endpoints are discovered from the issuer when not given explicitly
+ */
+export interface OAuthConfig {
+  clientId: string;
+  /** Required for the Authorization Code flow */
+  redirectUri?: string;
+  /** OpenID Provider issuer URL, enables discovery and ID token iss checks */
+  issuer?: string;
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  userinfoEndpoint?: string;
+  /** RFC 8628 device authorization endpoint */
+  deviceAuthorizationEndpoint?: string;
+  /** RFC 7009 token revocation endpoint */
+  revocationEndpoint?: string;
+  /** OpenID Connect RP-initiated logout endpoint */
+  endSessionEndpoint?: string;
+  /** Default redirect after RP-initiated logout */
+  postLogoutRedirectUri?: string;
+  scope?: string;
+}
+
+/**
+ * OpenID Provider metadata (subset of OpenID Connect Discovery 1.0)
+ */
+export interface OpenIDProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  revocation_endpoint?: string;
+  device_authorization_endpoint?: string;
+  [key: string]: unknown;
+}
+
+export interface LoginWithRedirectOptions {
+  scope?: string;
+  /** Opaque value round-tripped through the provider, generated when omitted */
+  state?: string;
+  /** Extra authorize URL parameters (prompt, login_hint, audience...) */
+  params?: Record<string, string>;
+}
+
+export interface DeviceCodeOptions {
+  scope?: string;
+  /** Stops polling and rejects complete() when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Pending Device Authorization Grant (RFC 8628)
+ */
+export interface DeviceCodeLogin<T = unknown> {
+  /** Code the user enters at verificationUri */
+  userCode: string;
+  verificationUri: string;
+  /** verificationUri with the user code included, suitable for a QR code */
+  verificationUriComplete?: string;
+  /** Seconds until the device code expires */
+  expiresIn: number;
+  /** Poll the token endpoint until the user approves, then store the tokens */
+  complete(): Promise<T>;
+}
+
+export interface LogoutOptions {
+  /** Revoke the refresh and access tokens at the provider (RFC 7009) */
+  revokeTokens?: boolean;
+  /** Redirect to the provider's end_session_endpoint (OpenID Connect RP-initiated logout) */
+  endSession?: boolean;
+  /** Overrides oauth.postLogoutRedirectUri */
+  postLogoutRedirectUri?: string;
+}
+
+/**
+ * Token awaiting revocation after a failed attempt
+ */
+export interface PendingRevocation {
+  token: string;
+  tokenTypeHint: 'access_token' | 'refresh_token';
+}
+
+/**
+ * Session timestamps shared between tabs by the session policy
+ */
+export interface SessionActivity {
+  startedAt: number;
+  lastActivityAt: number;
+}
+
+export interface SessionPolicyConfig {
+  /** Seconds without activity before the session ends */
+  idleTimeoutSeconds?: number;
+  /** Seconds after login before the session ends, whatever the activity */
+  absoluteTimeoutSeconds?: number;
+  /** Seconds before a timeout to emit sessionWarning (default 60) */
+  warningSeconds?: number;
+  /** DOM events counted as user activity (default mousedown, keydown, touchstart, wheel) */
+  activityEvents?: string[];
+}
+
+export interface AutoRefreshConfig {
+  /** Seconds before access token expiry to trigger the refresh (default 60) */
+  leewaySeconds?: number;
 }
 
 export interface AuthError {
   status: number;
   message: string;
   code?: string;
+  /** Parsed body of the failed response, if any */
+  data?: unknown;
+  /** Parsed WWW-Authenticate challenges of the failed response, if any */
+  challenges?: AuthChallenge[];
 }
 
+/**
+ * Authentication challenge from a WWW-Authenticate header
+ */
+export interface AuthChallenge {
+  scheme: string;
+  /** Parameters by lowercased name (realm, error, scope...) */
+  params: Record<string, string>;
+}
+
+/**
+ * Stronger authentication asked for by a resource server, either more scope
+ * (insufficient_scope, RFC 6750) or a higher assurance level (insufficient_user_authentication, RFC 9470)
+ */
+export interface StepUpRequirement {
+  error: 'insufficient_scope' | 'insufficient_user_authentication';
+  scope?: string;
+  acrValues?: string;
+  /** Maximum seconds since the user last authenticated */
+  maxAge?: number;
+  /** The request that was rejected */
+  method: string;
+  url: string;
+}
+
+/**
+ * Re-authenticate to meet a step-up requirement
+ * Return the upgraded tokens, or store them yourself and return nothing
+ */
+export type StepUpHandler = (requirement: StepUpRequirement) => Promise<TokenPair | void>;
+
 export interface HttpResponse<T = unknown> {
   data: T;
   status: number;
@@ -46,6 +327,16 @@ export interface RequestConfig {
   headers?: Record<string, string>;
   timeout?: number;
   isRetry?: boolean;
+  /** Send cookies with a cross-origin request */
+  withCredentials?: boolean;
+  /** Overrides the authHeader config for this request */
+  authHeader?: AuthHeaderConfig | AuthHeaderFunction;
+  /** Access token the DPoP proof is bound to (ath claim) */
+  boundAccessToken?: string;
+  /** Set when retrying with a server-provided DPoP nonce */
+  isNonceRetry?: boolean;
+  /** Set when retrying after step-up authentication */
+  isStepUpRetry?: boolean;
   [key: string]: any;
 }
 
@@ -54,24 +345,101 @@ export interface StorageAdapter {
   set(key: string, value: string): void;
   remove(key: string): void;
   clear(): void;
+  /** Load the given keys from a slower backing store into memory */
+  hydrate?(keys: string[]): Promise<void>;
+  /** Resolve once pending writes have reached the backing store */
+  flush?(): Promise<void>;
+  /** Replace the cached keys with the backing store values written by other tabs */
+  reload?(keys: string[]): Promise<void>;
 }
 
+/**
+ * Storage backed by an asynchronous API (IndexedDB, AsyncStorage, chrome.storage)
+ */
+export interface AsyncStorageAdapter {
+  readonly async: true;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type StorageType = 'localStorage' | 'sessionStorage' | 'memory' | 'cookie';
+
+/**
+ * Built-in storage type, custom adapter instance or adapter factory
+ */
+export type StorageOption =
+  | StorageType
+  | StorageAdapter
+  | AsyncStorageAdapter
+  | (() => StorageAdapter | AsyncStorageAdapter);
+
 export interface NormalizedConfig {
   baseURL: string;
+  mode: 'token' | 'cookie';
   endpoints: {
     login: string;
     refresh: string;
     logout: string;
+    session: string;
+    mfa: string;
   };
   tokenFields: {
     access: string;
     refresh: string;
+    expiresIn: string;
+    refreshExpiresIn: string;
+    tokenType: string;
+    scope: string;
   };
-  storage: 'localStorage' | 'sessionStorage' | 'memory';
+  extractTokens?: TokenExtractor;
+  authHeader: AuthHeaderConfig | AuthHeaderFunction;
+  dpop?: DPoPConfig;
+  refreshRequest: Required<RefreshRequestConfig> | RefreshRequestFunction;
+  stepUp?: StepUpHandler;
+  storage: StorageOption;
   timeout: number;
   validateAuth?: AuthValidator;
+  autoRefresh?: {
+    leewaySeconds: number;
+  };
+  sessionPolicy?: {
+    idleTimeoutSeconds?: number;
+    absoluteTimeoutSeconds?: number;
+    warningSeconds: number;
+    activityEvents: string[];
+  };
+  syncTabs: boolean;
+  refreshLock: boolean;
+  storageKeyPrefix: string;
+  clockSkewSeconds: number;
+  syncServerTime: boolean;
+  oauth?: OAuthConfig;
+}
+
+/**
+ * Authentication lifecycle events and their payloads
+ */
+export interface AuthEventMap {
+  /** tokens is null in cookie mode */
+  login: { tokens: TokenPair | null; data: unknown };
+  logout: undefined;
+  tokenRefreshed: { tokens: TokenPair | null };
+  refreshFailed: { error: unknown };
+  sessionExpired: { reason: string };
+  /** The session policy will end the session at expiresAt */
+  sessionWarning: { reason: 'idle' | 'absolute'; expiresAt: number };
+  tokensChanged: { tokens: TokenPair | null };
+  tabSync: { action: TabSyncAction; tokens: TokenPair | null };
 }
 
+export type TabSyncAction = 'login' | 'logout' | 'refresh';
+
+export type AuthEventType = keyof AuthEventMap;
+
+export type AuthEventHandler<K extends AuthEventType> = (payload: AuthEventMap[K]) => void;
+
 /**
  * Permission system types (separate from core auth)
  */
@@ -74,28 +74,6 @@ export function extractJWTClaims(token: string): UserClaims | null {
   }
 }
 
-/**
- * Check if JWT token is expired with proper validation
- */
-export function isJWTExpired(token: string): boolean {
-  try {
-    const claims = extractJWTClaims(token);
-    if (!claims) {
-      return true; // Invalid token is considered expired
-    }
-
-    // If no expiration claim, assume not expired
-    if (typeof claims.exp !== 'number') {
-      return false;
-    }
-
-    const now = Math.floor(Date.now() / 1000);
-    return claims.exp < now;
-  } catch {
-    return true; // Any error means token is invalid/expired
-  }
-}
-
 /**
  * Validate JWT token format and structure
  */
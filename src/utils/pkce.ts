@@ -0,0 +1,37 @@
+/**
+ * PKCE (RFC 7636) helpers built on WebCrypto
+ */
+
+/**
+ * Base64URL encode bytes without padding
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Generate a random URL-safe string
+ */
+export function generateRandomString(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Generate a code verifier (43 characters from 32 random bytes)
+ */
+export function generateCodeVerifier(): string {
+  return generateRandomString(32);
+}
+
+/**
+ * Derive the S256 code challenge for a verifier
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
@@ -0,0 +1,35 @@
+import { TokenMetadata } from '../types';
+
+/**
+ * Token details as reported in a token response
+ */
+export interface TokenResponseMetadata {
+  expiresIn?: unknown;
+  refreshExpiresIn?: unknown;
+  tokenType?: unknown;
+  scope?: unknown;
+}
+
+/**
+ * Turn relative lifetimes into absolute timestamps and drop missing values
+ */
+export function toTokenMetadata(
+  response: TokenResponseMetadata,
+  now: number = Date.now()
+): TokenMetadata {
+  const expiresIn = toSeconds(response.expiresIn);
+  const refreshExpiresIn = toSeconds(response.refreshExpiresIn);
+
+  return {
+    ...(expiresIn !== null && { expiresAt: now + expiresIn * 1000 }),
+    // Keycloak reports 0 for refresh tokens that never expire
+    ...(refreshExpiresIn && { refreshExpiresAt: now + refreshExpiresIn * 1000 }),
+    ...(typeof response.tokenType === 'string' && { tokenType: response.tokenType }),
+    ...(typeof response.scope === 'string' && { scope: response.scope }),
+  };
+}
+
+function toSeconds(value: unknown): number | null {
+  const seconds = typeof value === 'string' ? Number(value) : value;
+  return typeof seconds === 'number' && Number.isFinite(seconds) ? seconds : null;
+}
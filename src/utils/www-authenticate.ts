@@ -0,0 +1,42 @@
+import { AuthChallenge } from '../types';
+
+const TOKEN = /^[\w!#$%&'*+.^`|~-]+/;
+const QUOTED_STRING = /^"((?:[^"\\]|\\.)*)"/;
+
+/**
+ * Parse a WWW-Authenticate header into its challenges (RFC 9110)
+ * Parameter names are lowercased, token68 credentials are not supported
+ */
+export function parseWWWAuthenticate(header: string): AuthChallenge[] {
+  const challenges: AuthChallenge[] = [];
+  let current: AuthChallenge | null = null;
+  let rest = header;
+
+  for (;;) {
+    rest = rest.replace(/^[\s,]+/, '');
+    const name = TOKEN.exec(rest)?.[0];
+    if (!name) {
+      return challenges;
+    }
+    rest = rest.slice(name.length);
+
+    // A token not followed by '=' starts the next challenge
+    const assignment = /^\s*=\s*/.exec(rest)?.[0];
+    if (assignment === undefined || !current) {
+      current = { scheme: name, params: {} };
+      challenges.push(current);
+      continue;
+    }
+    rest = rest.slice(assignment.length);
+
+    const quoted = QUOTED_STRING.exec(rest);
+    if (quoted) {
+      current.params[name.toLowerCase()] = (quoted[1] ?? '').replace(/\\(.)/g, '$1');
+      rest = rest.slice(quoted[0].length);
+    } else {
+      const value = TOKEN.exec(rest)?.[0] ?? '';
+      current.params[name.toLowerCase()] = value;
+      rest = rest.slice(value.length);
+    }
+  }
+}